@@ -0,0 +1,329 @@
+/**
+ * Builds the basemap archive the community map draws by default, so it
+ * never has to fetch tiles from a third party.
+ *
+ * Usage:
+ *   pnpm basemap [--out <file>]
+ *
+ * Land and country borders come from the `world-atlas` package (Natural
+ * Earth, 1:10m), and state and Florida county lines from `us-atlas`, so the
+ * build needs no network. The tiles cover South Florida from zoom 0 to
+ * `MAX_ZOOM`; MapLibre overzooms past that, and the map's bundled world
+ * layer fills in the rest of the world. For streets and place names, swap
+ * in a Protomaps extract instead (see the README).
+ *
+ * Writes a PMTiles v3 archive (default:
+ * `public/tiles/south-florida.pmtiles`) with `earth` and `boundaries`
+ * layers, in the Protomaps basemap schema the map's style reads.
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { gzipSync } from 'node:zlib';
+import geojsonvt from 'geojson-vt';
+import { Compression, TileType, zxyToTileId } from 'pmtiles';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import { feature, mesh } from 'topojson-client';
+import { fromGeojsonVt } from 'vt-pbf';
+
+/** State FIPS code of Florida */
+const FLORIDA = '12';
+
+/** West, south, east, north: Miami-Dade, Broward and Palm Beach, and the Keys */
+const BOUNDS = [-82.5, 24.3, -79.8, 27.3] as const;
+
+/** Past this, the 1:10m data has no more detail to show */
+const MAX_ZOOM = 9;
+
+/** Zoom from which county lines are drawn */
+const COUNTY_MIN_ZOOM = 6;
+
+const ATTRIBUTION =
+    '<a href="https://www.naturalearthdata.com">Natural Earth</a>, <a href="https://www.census.gov/geographies/mapping-files.html">US Census Bureau</a>';
+
+/** `kind_detail` of a boundary: its OpenStreetMap admin level */
+const ADMIN_LEVEL = { country: 2, region: 4, county: 6 } as const;
+
+interface Layer {
+    name: string;
+    tiles: ReturnType<typeof geojsonvt>;
+    minZoom: number;
+}
+
+async function readAtlas<T>(file: string) {
+    const require = createRequire(import.meta.url);
+    return JSON.parse(await readFile(require.resolve(file), 'utf8')) as T;
+}
+
+function boundaries(
+    lines: GeoJSON.MultiLineString,
+    kind: keyof typeof ADMIN_LEVEL
+): GeoJSON.Feature<GeoJSON.MultiLineString> {
+    return {
+        type: 'Feature',
+        properties: { kind, kind_detail: ADMIN_LEVEL[kind] },
+        geometry: lines
+    };
+}
+
+async function readLayers(): Promise<Layer[]> {
+    const world = await readAtlas<
+        Topology<{ land: GeometryCollection; countries: GeometryCollection }>
+    >('world-atlas/countries-10m.json');
+    const land = await readAtlas<Topology<{ land: GeometryCollection }>>(
+        'world-atlas/land-10m.json'
+    );
+    const us = await readAtlas<
+        Topology<{ states: GeometryCollection; counties: GeometryCollection }>
+    >('us-atlas/counties-10m.json');
+
+    // Borders between two areas only; the coast is the edge of the land
+    const between = (a: unknown, b: unknown) => a !== b;
+    const inFlorida = (a: { id?: string | number }) =>
+        String(a.id).startsWith(FLORIDA);
+
+    const options = { maxZoom: MAX_ZOOM, indexMaxZoom: MAX_ZOOM, buffer: 64 };
+    return [
+        {
+            name: 'earth',
+            tiles: geojsonvt(feature(land, land.objects.land), options),
+            minZoom: 0
+        },
+        {
+            name: 'boundaries',
+            tiles: geojsonvt(
+                {
+                    type: 'FeatureCollection',
+                    features: [
+                        boundaries(
+                            mesh(world, world.objects.countries, between),
+                            'country'
+                        ),
+                        boundaries(
+                            mesh(us, us.objects.states, between),
+                            'region'
+                        )
+                    ]
+                },
+                options
+            ),
+            minZoom: 0
+        },
+        {
+            name: 'boundaries',
+            tiles: geojsonvt(
+                boundaries(
+                    mesh(
+                        us,
+                        us.objects.counties,
+                        (a, b) => a !== b && (inFlorida(a) || inFlorida(b))
+                    ),
+                    'county'
+                ),
+                options
+            ),
+            minZoom: COUNTY_MIN_ZOOM
+        }
+    ];
+}
+
+/** Tiles of `zoom` that overlap `BOUNDS` */
+function tilesInBounds(zoom: number) {
+    const n = 2 ** zoom;
+    const x = (lon: number) => Math.floor(((lon + 180) / 360) * n);
+    const y = (lat: number) => {
+        const rad = (lat * Math.PI) / 180;
+        return Math.floor(
+            ((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) *
+                n
+        );
+    };
+
+    const [west, south, east, north] = BOUNDS;
+    const tiles: [number, number][] = [];
+    for (let tx = x(west); tx <= x(east); tx++) {
+        for (let ty = y(north); ty <= y(south); ty++) tiles.push([tx, ty]);
+    }
+    return tiles;
+}
+
+/** One vector tile with the features every layer has there, or null */
+function buildTile(layers: Layer[], z: number, x: number, y: number) {
+    const features = new Map<string, geojsonvt.Feature[]>();
+    for (const layer of layers) {
+        if (z < layer.minZoom) continue;
+        const tile = layer.tiles.getTile(z, x, y);
+        if (!tile || tile.features.length === 0) continue;
+        features.set(layer.name, [
+            ...(features.get(layer.name) ?? []),
+            ...tile.features
+        ]);
+    }
+    if (features.size === 0) return null;
+
+    // vt-pbf reads only `features` of each layer, whatever its types say
+    return gzipSync(
+        fromGeojsonVt(
+            Object.fromEntries(
+                [...features].map(([name, layerFeatures]) => [
+                    name,
+                    { features: layerFeatures }
+                ])
+            ) as unknown as Parameters<typeof fromGeojsonVt>[0],
+            { version: 2 }
+        )
+    );
+}
+
+function writeVarint(bytes: number[], value: number) {
+    while (value >= 0x80) {
+        bytes.push((value % 0x80) | 0x80);
+        value = Math.floor(value / 0x80);
+    }
+    bytes.push(value);
+}
+
+interface Entry {
+    tileId: number;
+    offset: number;
+    length: number;
+}
+
+/** A PMTiles directory: every column delta- or run-encoded, then gzipped */
+function serializeDirectory(entries: Entry[]) {
+    const bytes: number[] = [];
+    writeVarint(bytes, entries.length);
+    let lastId = 0;
+    for (const { tileId } of entries) {
+        writeVarint(bytes, tileId - lastId);
+        lastId = tileId;
+    }
+    for (let i = 0; i < entries.length; i++) writeVarint(bytes, 1);
+    for (const { length } of entries) writeVarint(bytes, length);
+    entries.forEach(({ offset }, idx) => {
+        const previous = entries[idx - 1];
+        // 0 means "right after the previous tile"
+        writeVarint(
+            bytes,
+            previous && offset === previous.offset + previous.length
+                ? 0
+                : offset + 1
+        );
+    });
+    return gzipSync(Uint8Array.from(bytes));
+}
+
+/** The archive, laid out header, root directory, metadata, tile data */
+function writeArchive(tiles: { tileId: number; data: Buffer }[]) {
+    const entries: Entry[] = [];
+    const data: Buffer[] = [];
+    // Identical tiles (open sea, solid land) are stored once
+    const stored = new Map<string, Entry>();
+    let offset = 0;
+    for (const { tileId, data: tile } of tiles) {
+        const key = tile.toString('base64');
+        const existing = stored.get(key);
+        if (existing) {
+            entries.push({ ...existing, tileId });
+            continue;
+        }
+        const entry = { tileId, offset, length: tile.length };
+        stored.set(key, entry);
+        entries.push(entry);
+        data.push(tile);
+        offset += tile.length;
+    }
+
+    const directory = serializeDirectory(entries);
+    const metadata = gzipSync(
+        JSON.stringify({
+            name: 'South Florida',
+            attribution: ATTRIBUTION,
+            vector_layers: [
+                { id: 'earth', fields: {}, minzoom: 0, maxzoom: MAX_ZOOM },
+                {
+                    id: 'boundaries',
+                    fields: { kind: 'String', kind_detail: 'Number' },
+                    minzoom: 0,
+                    maxzoom: MAX_ZOOM
+                }
+            ]
+        })
+    );
+    const tileData = Buffer.concat(data);
+
+    const header = Buffer.alloc(127);
+    header.write('PMTiles', 0, 'ascii');
+    header.writeUInt8(3, 7);
+    const u64 = (position: number, value: number) =>
+        header.writeBigUInt64LE(BigInt(value), position);
+    const e7 = (position: number, degrees: number) =>
+        header.writeInt32LE(Math.round(degrees * 1e7), position);
+
+    const directoryOffset = header.length;
+    const metadataOffset = directoryOffset + directory.length;
+    const dataOffset = metadataOffset + metadata.length;
+    u64(8, directoryOffset);
+    u64(16, directory.length);
+    u64(24, metadataOffset);
+    u64(32, metadata.length);
+    u64(40, dataOffset);
+    u64(48, 0);
+    u64(56, dataOffset);
+    u64(64, tileData.length);
+    u64(72, entries.length);
+    u64(80, entries.length);
+    u64(88, data.length);
+    header.writeUInt8(1, 96); // clustered: tile data is in tile ID order
+    header.writeUInt8(Compression.Gzip, 97);
+    header.writeUInt8(Compression.Gzip, 98);
+    header.writeUInt8(TileType.Mvt, 99);
+    header.writeUInt8(0, 100);
+    header.writeUInt8(MAX_ZOOM, 101);
+    const [west, south, east, north] = BOUNDS;
+    e7(102, west);
+    e7(106, south);
+    e7(110, east);
+    e7(114, north);
+    header.writeUInt8(8, 118);
+    e7(119, (west + east) / 2);
+    e7(123, (south + north) / 2);
+
+    return Buffer.concat([header, directory, metadata, tileData]);
+}
+
+async function main() {
+    const { values } = parseArgs({
+        options: {
+            out: {
+                type: 'string',
+                default: 'public/tiles/south-florida.pmtiles'
+            }
+        }
+    });
+
+    const layers = await readLayers();
+    const tiles: { tileId: number; data: Buffer }[] = [];
+    for (let z = 0; z <= MAX_ZOOM; z++) {
+        for (const [x, y] of tilesInBounds(z)) {
+            const data = buildTile(layers, z, x, y);
+            if (data) tiles.push({ tileId: zxyToTileId(z, x, y), data });
+        }
+    }
+    tiles.sort((a, b) => a.tileId - b.tileId);
+
+    const archive = writeArchive(tiles);
+    const file = path.resolve(values.out);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, archive);
+
+    console.log(
+        `wrote ${path.relative(process.cwd(), file)}: ${tiles.length} tiles, zoom 0-${MAX_ZOOM}, ${Math.round(archive.length / 1024)} KiB`
+    );
+}
+
+main().catch((err: unknown) => {
+    console.error(`error: ${err instanceof Error ? err.message : err}`);
+    process.exitCode = 1;
+});
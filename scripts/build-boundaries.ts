@@ -0,0 +1,246 @@
+/**
+ * Builds the boundary polygons bundled with the community map's choropleth
+ * mode, so it never has to fetch geometry.
+ *
+ * Usage:
+ *   pnpm boundaries [--zcta <geojson>] [--out <file>]
+ *
+ * States and Florida counties come from the `us-atlas` package. For ZIP code
+ * polygons (ZCTAs), pass the Census Bureau's cartographic boundary file
+ * converted to GeoJSON (e.g. `cb_2020_us_zcta520_500k`) as `--zcta`, and the
+ * ZCTAs of Miami-Dade, Broward and Palm Beach are kept. Without it, each ZCTA
+ * gets an approximate area instead: the land closer to its centroid (from
+ * `us-zips`) than to any other, within the three counties. These are marked
+ * `approximate`, and the map says so. Pass `--zcta` again whenever the file
+ * is rebuilt, or the real shapes are replaced.
+ *
+ * Writes a single TopoJSON file (default: `src/data/geo/boundaries.topo.json`)
+ * with `states`, `counties` and `zctas` objects.
+ */
+import { readFile, mkdir, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { Delaunay } from 'd3-delaunay';
+import { geoContains } from 'd3-geo';
+import polygonClipping, { type MultiPolygon } from 'polygon-clipping';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import { feature } from 'topojson-client';
+import { topology } from 'topojson-server';
+import zctaCentroids from 'us-zips';
+import { z } from 'zod';
+
+import { compareStrings } from './pipeline/sort';
+import { SOUTH_FLORIDA_ZIP_PREFIXES } from './pipeline/zips';
+
+/** State FIPS code of Florida */
+const FLORIDA = '12';
+
+/** County FIPS codes of Miami-Dade, Broward and Palm Beach */
+const SOUTH_FLORIDA_COUNTIES = ['12086', '12011', '12099'];
+
+// Quantization of the output; plenty for a city-level choropleth
+const QUANTIZATION = 1e5;
+
+const zctaCollectionSchema = z.object({
+    type: z.literal('FeatureCollection'),
+    features: z.array(
+        z.object({
+            type: z.literal('Feature'),
+            properties: z.record(z.string(), z.unknown()).nullable(),
+            geometry: z.object({
+                type: z.enum(['Polygon', 'MultiPolygon'])
+            })
+        })
+    )
+});
+
+type Polygons = GeoJSON.FeatureCollection<
+    GeoJSON.Polygon | GeoJSON.MultiPolygon,
+    { name: string; approximate?: boolean }
+>;
+
+/** Census files name the ZIP property after the vintage: ZCTA5CE20, ZCTA5CE10… */
+function zctaCode(properties: Record<string, unknown> | null) {
+    for (const [key, value] of Object.entries(properties ?? {})) {
+        if (/^(ZCTA5CE\d*|GEOID\d*)$/i.test(key) && typeof value === 'string') {
+            return value;
+        }
+    }
+    return null;
+}
+
+async function readUsAtlas() {
+    const require = createRequire(import.meta.url);
+    const file = require.resolve('us-atlas/counties-10m.json');
+    const atlas = JSON.parse(await readFile(file, 'utf8')) as Topology<{
+        states: GeometryCollection<{ name: string }>;
+        counties: GeometryCollection<{ name: string }>;
+    }>;
+
+    const states = feature(atlas, atlas.objects.states) as Polygons;
+    const counties = feature(atlas, atlas.objects.counties) as Polygons;
+
+    return {
+        states,
+        counties: {
+            ...counties,
+            features: counties.features.filter(f =>
+                String(f.id).startsWith(FLORIDA)
+            )
+        } satisfies Polygons
+    };
+}
+
+async function readZctas(file: string): Promise<Polygons> {
+    let json: unknown;
+    try {
+        json = JSON.parse(await readFile(file, 'utf8'));
+    } catch (err) {
+        throw new Error(
+            `Could not read ${file}: ${err instanceof Error ? err.message : err}`
+        );
+    }
+
+    const parsed = zctaCollectionSchema.safeParse(json);
+    if (!parsed.success) {
+        throw new Error(
+            `${file} is not a GeoJSON FeatureCollection of polygons`
+        );
+    }
+
+    const features: Polygons['features'] = [];
+    for (const [idx, f] of parsed.data.features.entries()) {
+        const zip = zctaCode(f.properties);
+        if (!zip) {
+            throw new Error(
+                `${file}: feature ${idx} has no ZCTA5CE/GEOID property`
+            );
+        }
+        if (!SOUTH_FLORIDA_ZIP_PREFIXES.includes(zip.slice(0, 3))) continue;
+
+        const { geometry } = (json as Polygons).features[idx];
+        features.push({
+            type: 'Feature',
+            id: zip,
+            properties: { name: zip },
+            geometry
+        });
+    }
+
+    if (features.length === 0) {
+        throw new Error(`${file} has no ZCTAs in South Florida`);
+    }
+
+    return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Approximate ZCTA areas, for when no ZCTA file is given: a Voronoi diagram
+ * of the ZCTA centroids, clipped to the three counties. Each ZIP code gets
+ * the land nearest its centroid, which is close to, but not, its real shape.
+ */
+function approximateZctas(counties: Polygons): Polygons {
+    const area = counties.features.filter(f =>
+        SOUTH_FLORIDA_COUNTIES.includes(String(f.id))
+    );
+    const [first, ...rest] = area.map(({ geometry }) =>
+        geometry.type === 'Polygon'
+            ? [geometry.coordinates as MultiPolygon[number]]
+            : (geometry.coordinates as MultiPolygon)
+    );
+    const land = polygonClipping.union(first, ...rest);
+
+    const zips = Object.entries(zctaCentroids)
+        .map(([zip, { latitude, longitude }]) => ({
+            zip,
+            point: [longitude, latitude] as [number, number]
+        }))
+        .filter(
+            ({ zip, point }) =>
+                SOUTH_FLORIDA_ZIP_PREFIXES.includes(zip.slice(0, 3)) &&
+                area.some(f => geoContains(f, point))
+        )
+        .sort((a, b) => compareStrings(a.zip, b.zip));
+
+    // Degrees of longitude are shorter than degrees of latitude this far
+    // north, so distances are measured with longitude scaled down
+    const [minLon, minLat, maxLon, maxLat] = land
+        .flat(2)
+        .reduce(
+            ([x0, y0, x1, y1], [x, y]) => [
+                Math.min(x0, x),
+                Math.min(y0, y),
+                Math.max(x1, x),
+                Math.max(y1, y)
+            ],
+            [Infinity, Infinity, -Infinity, -Infinity]
+        );
+    const scale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+    const voronoi = Delaunay.from(
+        zips,
+        ({ point }) => point[0] * scale,
+        ({ point }) => point[1]
+    ).voronoi([minLon * scale, minLat, maxLon * scale, maxLat]);
+
+    const features: Polygons['features'] = [];
+    for (const [idx, { zip }] of zips.entries()) {
+        const cell = voronoi.cellPolygon(idx);
+        if (!cell) continue;
+
+        const clipped = polygonClipping.intersection(
+            [cell.map(([x, y]): [number, number] => [x / scale, y])],
+            land
+        );
+        if (clipped.length === 0) continue;
+
+        features.push({
+            type: 'Feature',
+            id: zip,
+            properties: { name: zip, approximate: true },
+            // polygon-clipping winds outer rings counterclockwise; d3-geo and
+            // `us-atlas` wind them clockwise
+            geometry: {
+                type: 'MultiPolygon',
+                coordinates: clipped.map(polygon =>
+                    polygon.map(ring => [...ring].reverse())
+                )
+            }
+        });
+    }
+
+    return { type: 'FeatureCollection', features };
+}
+
+async function main() {
+    const { values } = parseArgs({
+        options: {
+            zcta: { type: 'string' },
+            out: {
+                type: 'string',
+                default: 'src/data/geo/boundaries.topo.json'
+            }
+        }
+    });
+
+    const { states, counties } = await readUsAtlas();
+    const zctas = values.zcta
+        ? await readZctas(path.resolve(values.zcta))
+        : approximateZctas(counties);
+
+    const output = topology({ states, counties, zctas }, QUANTIZATION);
+
+    const file = path.resolve(values.out);
+    await mkdir(path.dirname(file), { recursive: true });
+    // Compact on purpose: indented arcs would be several times larger
+    await writeFile(file, `${JSON.stringify(output)}\n`);
+
+    console.log(
+        `wrote ${path.relative(process.cwd(), file)}: ${states.features.length} states, ${counties.features.length} counties, ${zctas.features.length} ${values.zcta ? '' : 'approximate '}ZCTAs`
+    );
+}
+
+main().catch((err: unknown) => {
+    console.error(`error: ${err instanceof Error ? err.message : err}`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,439 @@
+/**
+ * Regenerates the precomputed report data from a local Luma export.
+ *
+ * Usage:
+ *   pnpm data [--input <dir>] [--out <dir>] [--year <yyyy>]
+ *             [--noise geometric|laplace --seed <secret> [--epsilon <ε>]
+ *              [--max-rsvps <n>]]
+ *
+ * `--input` is a directory holding the `events-complete-*.json` files from
+ * the Luma export (default: `.data/luma`, gitignored). `--out` is the data
+ * directory the site imports from (default: `src/data`); its
+ * `question-groups.json` decides how survey answers are normalized.
+ *
+ * Each edition of the report is written to `<out>/<year>/`, from the events
+ * that took place that year. `--year` defaults to the latest year in the
+ * export; earlier editions are left untouched.
+ *
+ * `--noise` adds differentially private noise to every published count,
+ * spending a budget of `--epsilon` (default 1) on the edition, split across
+ * the queries. The budget protects a whole builder, counting up to
+ * `--max-rsvps` (default 12) of their RSVPs. The noise is drawn from
+ * `--seed`, which must stay private: anyone who has it can take the noise
+ * back out.
+ *
+ * The output is deterministic: running it twice on the same export produces
+ * byte-identical files.
+ */
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { z } from 'zod';
+
+import {
+    cohortStatsSchema,
+    demographicsStatsSchema,
+    distanceStatsSchema,
+    generalStatsSchema,
+    growthStatsSchema,
+    impactStatsSchema,
+    interestsStatsSchema,
+    keywordTrendsSchema,
+    privacyReportSchema,
+    regionRollupsSchema,
+    retentionStatsSchema,
+    roleSpecialityStatsSchema,
+    textStatsSchema,
+    zipCountsSchema,
+    zipLocationsSchema,
+    zipTimelineSchema
+} from '../src/types/stats';
+import { parseWithSchema } from '../src/utils/validation';
+import {
+    collectDemographicAnswers,
+    computeDemographicsStats
+} from './pipeline/demographics';
+import { computeDistanceStats } from './pipeline/distance';
+import {
+    readLumaExport,
+    readQuestionGroups,
+    readVenues
+} from './pipeline/export';
+import {
+    createAnswerNormalizer,
+    formatNormalizationReport
+} from './pipeline/normalize';
+import {
+    capRsvps,
+    computeSensitivities,
+    createNoiseStage,
+    DEFAULT_MAX_RSVPS,
+    formatNoiseReport,
+    NOISE_MECHANISMS,
+    noiseCohortStats,
+    noiseDemographicsStats,
+    noiseDistanceStats,
+    noiseGeneralStats,
+    noiseGrowthStats,
+    noiseImpactStats,
+    noiseInterestsStats,
+    noiseRetentionStats,
+    noiseRoleSpecialityStats,
+    noiseTextStats,
+    noiseZipTimeline,
+    sumZipTimeline,
+    type NoiseMechanism,
+    type NoiseOptions
+} from './pipeline/noise';
+import { writeJson } from './pipeline/output';
+import {
+    createPrivacyGuard,
+    formatPrivacyReport,
+    protectCohortStats,
+    protectDemographicsStats,
+    protectDistanceStats,
+    protectGeneralStats,
+    protectGrowthStats,
+    protectImpactStats,
+    protectInterestsStats,
+    protectKeywordTrends,
+    protectRetentionStats,
+    protectRoleSpecialityStats,
+    protectTextStats,
+    protectZipCounts,
+    protectZipTimeline
+} from './pipeline/privacy';
+import {
+    computeCohortStats,
+    computeMonthlyTurnover,
+    computeRetentionStats
+} from './pipeline/retention';
+import {
+    buildRegistrations,
+    computeGeneralStats,
+    computeGrowthStats,
+    computeImpactStats,
+    computeInterestsStats,
+    computeRoleSpecialityStats,
+    computeZipCounts,
+    computeZipTimeline,
+    exportMonths,
+    exportYears,
+    filterExportsByYear,
+    latestAnswers,
+    QUESTIONS
+} from './pipeline/stats';
+import { computeRegionRollups } from './pipeline/regions';
+import {
+    computeKeywordTrends,
+    computeTextStats,
+    MIN_KEYWORD_COUNT
+} from './pipeline/text';
+import {
+    findMalformedZips,
+    formatZipReport,
+    listPlaceableZips,
+    SOUTH_FLORIDA_ZIP_PREFIXES,
+    resolveZipLocations
+} from './pipeline/zips';
+
+async function main() {
+    const { values } = parseArgs({
+        options: {
+            input: { type: 'string', default: '.data/luma' },
+            out: { type: 'string', default: 'src/data' },
+            year: { type: 'string' },
+            noise: { type: 'string' },
+            epsilon: { type: 'string', default: '1' },
+            seed: { type: 'string' },
+            'max-rsvps': { type: 'string', default: String(DEFAULT_MAX_RSVPS) }
+        }
+    });
+
+    let noiseOptions: Omit<NoiseOptions, 'sensitivities'> | null = null;
+    if (values.noise !== undefined) {
+        const mechanism = values.noise as NoiseMechanism;
+        if (!NOISE_MECHANISMS.includes(mechanism)) {
+            throw new Error(
+                `Invalid --noise "${values.noise}"; expected ${NOISE_MECHANISMS.join(' or ')}`
+            );
+        }
+        const epsilon = Number(values.epsilon);
+        if (!Number.isFinite(epsilon) || epsilon <= 0) {
+            throw new Error(`Invalid --epsilon "${values.epsilon}"`);
+        }
+        const maxRsvps = Number(values['max-rsvps']);
+        if (!Number.isInteger(maxRsvps) || maxRsvps < 1) {
+            throw new Error(`Invalid --max-rsvps "${values['max-rsvps']}"`);
+        }
+        if (!values.seed) {
+            throw new Error('--noise needs a --seed');
+        }
+        noiseOptions = { mechanism, epsilon, seed: values.seed, maxRsvps };
+    }
+
+    const inputDir = path.resolve(values.input);
+    const dataDir = path.resolve(values.out);
+
+    const questionGroups = await readQuestionGroups(
+        path.join(dataDir, 'question-groups.json')
+    );
+    const normalizer = createAnswerNormalizer(questionGroups);
+    const venuesFile = path.join(dataDir, 'venues.json');
+    const venues = await readVenues(venuesFile);
+
+    const allExports = await readLumaExport(inputDir);
+
+    const year = values.year ? Number(values.year) : exportYears(allExports)[0];
+    if (!Number.isInteger(year) || year < 2000) {
+        throw new Error(`Invalid --year "${values.year}"`);
+    }
+
+    const exports = filterExportsByYear(allExports, year);
+    if (exports.length === 0) {
+        throw new Error(`The export has no events in ${year}`);
+    }
+
+    const registrations = buildRegistrations(exports, normalizer);
+    const outDir = path.join(dataDir, String(year));
+    const precomputedDir = path.join(outDir, 'precomputed');
+
+    console.log(
+        `Read ${exports.length} events in ${year} and ${registrations.length} approved registrations from ${path.relative(process.cwd(), inputDir)}`
+    );
+
+    // Every published count goes through the privacy stage. The map only
+    // shows ZIPs that are big enough, and everything drawn from them
+    const privacy = createPrivacyGuard();
+    const minCount = (floor: number) => Math.max(floor, privacy.minCellSize);
+
+    const noise =
+        noiseOptions &&
+        createNoiseStage({
+            ...noiseOptions,
+            sensitivities: computeSensitivities({
+                maxRsvps: noiseOptions.maxRsvps,
+                maxPicks: normalizer.maxPicks,
+                distance: venues.length > 0
+            })
+        });
+    // With noise, one builder's RSVPs count up to a cap, so the noise can
+    // cover everything a builder adds
+    const rsvps = noise
+        ? capRsvps(registrations, noise.report.maxRsvps)
+        : registrations;
+
+    const zips = resolveZipLocations(computeZipCounts(registrations));
+    // ZIPs the gazetteer cannot place ("00000" and other typos) are reported
+    // below and published nowhere
+    const locatedZipTimeline = computeZipTimeline(rsvps).map(month => ({
+        ...month,
+        counts: Object.fromEntries(
+            Object.entries(month.counts).filter(
+                ([zip]) => zip in zips.locations
+            )
+        )
+    }));
+
+    let generalStats = computeGeneralStats(exports, rsvps);
+    let growthStats = computeGrowthStats(rsvps);
+    let zipTimeline = locatedZipTimeline;
+    let impactStats = computeImpactStats(rsvps);
+    let interestsStats = computeInterestsStats(rsvps);
+    let roleSpecialityStats = computeRoleSpecialityStats(registrations);
+    let retentionStats = computeRetentionStats(registrations);
+    let turnover = computeMonthlyTurnover(registrations);
+    let cohortStats = computeCohortStats(registrations);
+    let demographicsStats = computeDemographicsStats(registrations);
+    let textStats = computeTextStats(registrations);
+    let keywordTrends = computeKeywordTrends(
+        registrations,
+        minCount(MIN_KEYWORD_COUNT)
+    );
+    // Needs at least one venue to measure from. Measured from every ZIP
+    // that could be placed; only the totals are published
+    let distanceStats = computeDistanceStats(
+        registrations,
+        zips.locations,
+        venues
+    );
+
+    // Every published count is noised, or worked out from noised counts.
+    // The totals are summed from the months, so the hero's RSVPs match the
+    // growth chart, and the ZIP counts add up to them
+    if (noise) {
+        const months = exportMonths(exports);
+        growthStats = noiseGrowthStats(noise, growthStats, months);
+        generalStats = noiseGeneralStats(noise, generalStats, growthStats);
+        zipTimeline = noiseZipTimeline(noise, zipTimeline, {
+            // The map's ZIP codes come from South Florida only: the fewer
+            // ZIPs noised, the fewer builders one needs to stand out
+            domain: listPlaceableZips(SOUTH_FLORIDA_ZIP_PREFIXES),
+            builders: computeZipCounts(
+                latestAnswers(registrations, QUESTIONS.zip)
+            ),
+            growth: growthStats,
+            total: generalStats.totalRegistrations ?? 0,
+            minCount: privacy.minCellSize
+        });
+        impactStats = noiseImpactStats(noise, impactStats, normalizer.options);
+        interestsStats = noiseInterestsStats(
+            noise,
+            interestsStats,
+            normalizer.options
+        );
+        roleSpecialityStats = noiseRoleSpecialityStats(
+            noise,
+            roleSpecialityStats,
+            normalizer.options
+        );
+        ({ stats: retentionStats, turnover } = noiseRetentionStats(
+            noise,
+            retentionStats,
+            turnover,
+            months,
+            generalStats
+        ));
+        cohortStats = noiseCohortStats(noise, cohortStats, months);
+        demographicsStats = noiseDemographicsStats(
+            noise,
+            demographicsStats,
+            normalizer.options
+        );
+        textStats = noiseTextStats(noise, textStats);
+        keywordTrends = { ...keywordTrends, keywords: [], monthly: [] };
+        console.warn(
+            'warning: --noise leaves out the keywords, which have no public list of values to noise'
+        );
+        if (distanceStats) {
+            distanceStats = noiseDistanceStats(noise, distanceStats);
+        }
+
+        privacy.report.noise = noise.report;
+        for (const line of formatNoiseReport(noise.report)) {
+            console.log(`noise      ${line}`);
+        }
+    }
+
+    const zipCounts = protectZipCounts(privacy, sumZipTimeline(zipTimeline));
+    const zipLocations = resolveZipLocations(zipCounts).locations;
+
+    const outputs: [string, z.ZodTypeAny, unknown][] = [
+        [
+            path.join(precomputedDir, 'general-stats.json'),
+            generalStatsSchema,
+            protectGeneralStats(privacy, generalStats)
+        ],
+        [
+            path.join(precomputedDir, 'growth-stats.json'),
+            growthStatsSchema,
+            protectGrowthStats(privacy, growthStats)
+        ],
+        [
+            path.join(precomputedDir, 'impact-stats.json'),
+            impactStatsSchema,
+            protectImpactStats(privacy, impactStats)
+        ],
+        [
+            path.join(precomputedDir, 'role-speciality-stats.json'),
+            roleSpecialityStatsSchema,
+            protectRoleSpecialityStats(privacy, roleSpecialityStats)
+        ],
+        [
+            path.join(precomputedDir, 'interests-stats.json'),
+            interestsStatsSchema,
+            protectInterestsStats(privacy, interestsStats)
+        ],
+        [
+            path.join(precomputedDir, 'retention-stats.json'),
+            retentionStatsSchema,
+            protectRetentionStats(privacy, retentionStats, turnover)
+        ],
+        [
+            path.join(precomputedDir, 'cohort-stats.json'),
+            cohortStatsSchema,
+            protectCohortStats(privacy, cohortStats)
+        ],
+        [
+            path.join(precomputedDir, 'demographics-stats.json'),
+            demographicsStatsSchema,
+            // Noised counts cannot be recounted from the answers
+            protectDemographicsStats(
+                privacy,
+                demographicsStats,
+                noise ? undefined : collectDemographicAnswers(registrations)
+            )
+        ],
+        [
+            path.join(precomputedDir, 'text-stats.json'),
+            textStatsSchema,
+            protectTextStats(privacy, textStats)
+        ],
+        [
+            path.join(precomputedDir, 'keyword-trends.json'),
+            keywordTrendsSchema,
+            protectKeywordTrends(privacy, keywordTrends)
+        ],
+        [
+            path.join(precomputedDir, 'region-rollups.json'),
+            regionRollupsSchema,
+            computeRegionRollups(zipCounts, zipLocations)
+        ],
+        [
+            path.join(precomputedDir, 'zip-timeline.json'),
+            zipTimelineSchema,
+            protectZipTimeline(privacy, zipTimeline, zipCounts)
+        ],
+        [path.join(outDir, 'zip-counts.json'), zipCountsSchema, zipCounts],
+        [
+            path.join(outDir, 'zip-locations.json'),
+            zipLocationsSchema,
+            zipLocations
+        ]
+    ];
+
+    if (distanceStats) {
+        outputs.push([
+            path.join(precomputedDir, 'distance-stats.json'),
+            distanceStatsSchema,
+            protectDistanceStats(privacy, distanceStats)
+        ]);
+    } else {
+        console.warn(
+            `warning: no venues in ${path.relative(process.cwd(), venuesFile)}; skipped distance-stats.json`
+        );
+    }
+
+    outputs.push([
+        path.join(outDir, 'privacy-report.json'),
+        privacyReportSchema,
+        privacy.report
+    ]);
+    for (const line of formatPrivacyReport(privacy.report)) {
+        console.log(`suppressed ${line}`);
+    }
+
+    for (const line of [
+        ...formatNormalizationReport(normalizer.report),
+        ...formatZipReport(zips.unresolved, findMalformedZips(registrations))
+    ]) {
+        console.warn(`warning: ${line}`);
+    }
+
+    // Validate everything before writing anything, so a bad export never
+    // leaves the data directory half-updated
+    for (const [file, schema, data] of outputs) {
+        parseWithSchema(schema, data, path.relative(outDir, file));
+    }
+
+    for (const [file, , data] of outputs) {
+        const changed = await writeJson(file, data);
+        console.log(
+            `${changed ? 'wrote    ' : 'unchanged'} ${path.relative(process.cwd(), file)}`
+        );
+    }
+}
+
+main().catch((err: unknown) => {
+    console.error(`error: ${err instanceof Error ? err.message : err}`);
+    process.exitCode = 1;
+});
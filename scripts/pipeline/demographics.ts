@@ -0,0 +1,77 @@
+import type {
+    DemographicBreakdown,
+    DemographicsStats
+} from '../../src/types/stats';
+import { toPercent } from './retention';
+import {
+    countAnswers,
+    latestAnswers,
+    QUESTIONS,
+    type Registration
+} from './stats';
+
+/**
+ * Smallest number of builders a published group may contain. The privacy
+ * stage merges options picked by fewer into "Other", so nobody can be
+ * singled out by a rare answer.
+ */
+export const MIN_GROUP_SIZE = 10;
+
+/** The breakdowns we publish, by key in `DemographicsStats` */
+const DEMOGRAPHIC_QUESTIONS = {
+    gender: QUESTIONS.gender,
+    identity: QUESTIONS.identity
+};
+
+export type DemographicKey = keyof typeof DEMOGRAPHIC_QUESTIONS;
+
+/**
+ * Each respondent's options, per breakdown. Both questions are
+ * multi-select, so the privacy stage needs them to count the builders in a
+ * merged "Other" rather than their answers.
+ */
+export function collectDemographicAnswers(
+    registrations: Registration[]
+): Record<DemographicKey, string[][]> {
+    const answers = (question: string) =>
+        latestAnswers(registrations, question).map(
+            r => r.answers.get(question)!.values
+        );
+    return {
+        gender: answers(DEMOGRAPHIC_QUESTIONS.gender),
+        identity: answers(DEMOGRAPHIC_QUESTIONS.identity)
+    };
+}
+
+/** Every option that was picked; the privacy stage decides what is shown */
+function computeBreakdown(
+    registrations: Registration[],
+    question: string
+): DemographicBreakdown {
+    const answered = latestAnswers(registrations, question);
+    const respondents = answered.length;
+
+    return {
+        question,
+        respondents,
+        groups: countAnswers(answered, question).map(({ name, value }) => ({
+            name,
+            value,
+            percent: toPercent(value, respondents)
+        })),
+        suppressedGroups: 0
+    };
+}
+
+export function computeDemographicsStats(
+    registrations: Registration[]
+): DemographicsStats {
+    return {
+        minGroupSize: MIN_GROUP_SIZE,
+        gender: computeBreakdown(registrations, DEMOGRAPHIC_QUESTIONS.gender),
+        identity: computeBreakdown(
+            registrations,
+            DEMOGRAPHIC_QUESTIONS.identity
+        )
+    };
+}
@@ -0,0 +1,114 @@
+import type {
+    DistanceStats,
+    NamedValue,
+    Venue,
+    ZipLocations
+} from '../../src/types/stats';
+import { haversineMiles, RING_MILES } from '../../src/utils/geo';
+import { toPercent } from './retention';
+import {
+    latestAnswers,
+    normalizeZip,
+    QUESTIONS,
+    type Registration
+} from './stats';
+
+/** Upper bounds of the distance bands, in miles; the last band is open */
+const BAND_LIMITS = [...RING_MILES, 100];
+
+function bandName(index: number) {
+    const lower = index === 0 ? 0 : BAND_LIMITS[index - 1];
+    return index < BAND_LIMITS.length
+        ? `${lower}-${BAND_LIMITS[index]}`
+        : `${lower}+`;
+}
+
+/** The venue in use in `month`, given venues sorted oldest first */
+export function venueForMonth(venues: Venue[], month: string) {
+    let current = venues[0];
+    for (const venue of venues) {
+        if (!venue.from || venue.from <= month) current = venue;
+    }
+    return current;
+}
+
+function median(values: number[]) {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2
+        ? sorted[mid]
+        : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * The median distance read off the bands, interpolating within the band it
+ * falls in; the open last band counts as its lower bound. For noised
+ * counts, where the distances themselves are not published.
+ */
+export function medianFromDistribution(distribution: NamedValue[]) {
+    const total = distribution.reduce((sum, band) => sum + band.value, 0);
+    let below = 0;
+    for (const [idx, { value }] of distribution.entries()) {
+        if (below + value >= total / 2 && value > 0) {
+            const lower = idx === 0 ? 0 : BAND_LIMITS[idx - 1];
+            const upper = BAND_LIMITS[idx] ?? lower;
+            const miles =
+                lower + ((total / 2 - below) / value) * (upper - lower);
+            return Math.round(miles * 10) / 10;
+        }
+        below += value;
+    }
+    return 0;
+}
+
+/**
+ * How far each builder travels, measured from the centroid of the ZIP code
+ * on their latest registration to the venue of that night. Builders whose
+ * ZIP could not be placed are left out.
+ */
+export function computeDistanceStats(
+    registrations: Registration[],
+    zipLocations: ZipLocations,
+    venues: Venue[]
+): DistanceStats | null {
+    if (venues.length === 0) return null;
+
+    const distances: number[] = [];
+    const bands = new Array<number>(BAND_LIMITS.length + 1).fill(0);
+    let outOfState = 0;
+
+    for (const { answers, month } of latestAnswers(
+        registrations,
+        QUESTIONS.zip
+    )) {
+        const zip = normalizeZip(answers.get(QUESTIONS.zip)!.values[0]);
+        const location = zip ? zipLocations[zip] : undefined;
+        if (!location) continue;
+
+        const venue = venueForMonth(venues, month);
+        const miles = haversineMiles(location, venue);
+        distances.push(miles);
+
+        const band = BAND_LIMITS.findIndex(limit => miles < limit);
+        bands[band === -1 ? BAND_LIMITS.length : band]++;
+
+        if (location.state !== venue.state) outOfState++;
+    }
+
+    const months = new Set(registrations.map(r => r.month));
+    const used = venues.filter(venue =>
+        [...months].some(month => venueForMonth(venues, month) === venue)
+    );
+
+    return {
+        venues: used,
+        builders: distances.length,
+        medianMiles:
+            distances.length > 0 ? Math.round(median(distances) * 10) / 10 : 0,
+        distribution: bands.map(
+            (value, idx): NamedValue => ({ name: bandName(idx), value })
+        ),
+        outOfState,
+        outOfStatePercent: toPercent(outOfState, distances.length)
+    };
+}
@@ -0,0 +1,95 @@
+import { access, readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { z } from 'zod';
+
+import {
+    lumaExportFileSchema,
+    questionGroupsSchema,
+    type LumaEventExport
+} from '../../src/types/luma';
+import { venuesSchema } from '../../src/types/stats';
+import { parseWithSchema } from '../../src/utils/validation';
+import { compareStrings } from './sort';
+
+/** Reads and validates a JSON file, naming the file in any error */
+export async function readJsonFile<T extends z.ZodTypeAny>(
+    file: string,
+    schema: T
+): Promise<z.output<T>> {
+    const name = path.basename(file);
+
+    let raw: string;
+    try {
+        raw = await readFile(file, 'utf8');
+    } catch {
+        throw new Error(`Cannot read "${file}"`);
+    }
+
+    let json: unknown;
+    try {
+        json = JSON.parse(raw);
+    } catch (err) {
+        throw new Error(`${name} is not valid JSON: ${(err as Error).message}`);
+    }
+
+    return parseWithSchema(schema, json, name);
+}
+
+export function readQuestionGroups(file: string) {
+    return readJsonFile(file, questionGroupsSchema);
+}
+
+/**
+ * Reads the hack night venues, oldest first. The file is optional: without
+ * it there is nothing to measure travel distances against.
+ */
+export async function readVenues(file: string) {
+    const exists = await access(file).then(
+        () => true,
+        () => false
+    );
+    if (!exists) return [];
+
+    const venues = await readJsonFile(file, venuesSchema);
+    return venues.sort((a, b) => compareStrings(a.from ?? '', b.from ?? ''));
+}
+
+const EXPORT_FILE_PATTERN = /^events-complete-.*\.json$/;
+
+/**
+ * Reads every `events-complete-*.json` file in `dir`. Files are read in name
+ * order and events are keyed by `api_id`, so a later snapshot of the same
+ * event replaces an earlier one. Throws if any file does not match the
+ * export schema.
+ */
+export async function readLumaExport(dir: string): Promise<LumaEventExport[]> {
+    let files: string[];
+    try {
+        files = await readdir(dir);
+    } catch {
+        throw new Error(`Cannot read export directory "${dir}"`);
+    }
+
+    const exportFiles = files.filter(f => EXPORT_FILE_PATTERN.test(f)).sort();
+    if (exportFiles.length === 0) {
+        throw new Error(`No events-complete-*.json files found in "${dir}"`);
+    }
+
+    const byEvent = new Map<string, LumaEventExport>();
+    for (const file of exportFiles) {
+        const entries = await readJsonFile(
+            path.join(dir, file),
+            lumaExportFileSchema
+        );
+        for (const entry of entries) {
+            byEvent.set(entry.event.api_id, entry);
+        }
+    }
+
+    return [...byEvent.values()].sort(
+        (a, b) =>
+            compareStrings(a.event.start_at, b.event.start_at) ||
+            compareStrings(a.event.api_id, b.event.api_id)
+    );
+}
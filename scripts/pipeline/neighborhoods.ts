@@ -0,0 +1,27 @@
+/**
+ * Miami-area neighborhoods by ZIP code, for the region rollups. ZIP codes
+ * rarely follow neighborhood lines, so each is filed under the neighborhood
+ * it mostly covers; ZIPs not listed here are only rolled up by city.
+ */
+export const NEIGHBORHOODS: { name: string; zips: string[] }[] = [
+    { name: 'Allapattah', zips: ['33142'] },
+    { name: 'Brickell', zips: ['33129', '33130', '33131'] },
+    { name: 'Coconut Grove', zips: ['33133'] },
+    { name: 'Coral Gables', zips: ['33134', '33146'] },
+    { name: 'Coral Way', zips: ['33145'] },
+    { name: 'Doral', zips: ['33122', '33172', '33178'] },
+    { name: 'Downtown', zips: ['33128', '33132'] },
+    { name: 'Edgewater', zips: ['33137'] },
+    { name: 'Kendall', zips: ['33176', '33183', '33186'] },
+    { name: 'Key Biscayne', zips: ['33149'] },
+    { name: 'Little Havana', zips: ['33125', '33135'] },
+    { name: 'Little River', zips: ['33150'] },
+    { name: 'Mid-Beach', zips: ['33140'] },
+    { name: 'North Beach', zips: ['33141'] },
+    { name: 'Overtown', zips: ['33136'] },
+    { name: 'Pinecrest', zips: ['33156'] },
+    { name: 'South Beach', zips: ['33139'] },
+    { name: 'South Miami', zips: ['33143'] },
+    { name: 'Upper East Side', zips: ['33138'] },
+    { name: 'Wynwood', zips: ['33127'] }
+];
@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { createRng } from './noise';
+
+/** The 32-bit seed state the generator used to start from (xmur3) */
+function xmur3State(seed: string) {
+    let h = 1779033703 ^ seed.length;
+    for (let i = 0; i < seed.length; i++) {
+        h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+        h = (h << 13) | (h >>> 19);
+    }
+    return h >>> 0;
+}
+
+const draw = (seed: string, count: number) => {
+    const random = createRng(seed);
+    return Array.from({ length: count }, () => random());
+};
+
+describe('createRng', () => {
+    it('repeats its stream for the same seed', () => {
+        assert.deepEqual(draw('s3cret', 8), draw('s3cret', 8));
+    });
+
+    it('tells apart seeds that share a 32-bit hash', () => {
+        const [first, second] = ['ckjuyw', '60dyznn5y'];
+        assert.equal(xmur3State(first), xmur3State(second));
+        assert.notDeepEqual(draw(first, 8), draw(second, 8));
+    });
+});
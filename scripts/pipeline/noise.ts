@@ -0,0 +1,696 @@
+import { createHash } from 'node:crypto';
+
+import type {
+    CohortRow,
+    DemographicBreakdown,
+    DemographicsStats,
+    DistanceStats,
+    GeneralStats,
+    GrowthStat,
+    ImpactStats,
+    InterestsStats,
+    NamedValue,
+    NoiseReport,
+    RetentionStats,
+    RoleSpecialityStats,
+    TextStats,
+    ZipCounts,
+    ZipTimeline
+} from '../../src/types/stats';
+import { medianFromDistribution } from './distance';
+import { monthsBetween, toPercent, type MonthlyTurnover } from './retention';
+import { byValueDesc, compareStrings } from './sort';
+import { QUESTIONS, toMonthLabel, type Registration } from './stats';
+import { TOPICS } from './topics';
+
+export const NOISE_MECHANISMS = ['geometric', 'laplace'] as const;
+
+export type NoiseMechanism = (typeof NOISE_MECHANISMS)[number];
+
+/** RSVPs counted per builder at most, unless `--max-rsvps` says otherwise */
+export const DEFAULT_MAX_RSVPS = 12;
+
+/**
+ * The counts that get noise. The map's query is charged `ZIP_SHARE` of the
+ * budget and the rest share what is left evenly. Every published number is
+ * one of them, or worked out from them, which is free.
+ */
+const QUERIES = {
+    growth: 'RSVPs by month',
+    guests: 'unique guests',
+    zips: 'builders by ZIP code',
+    zipMonths: 'RSVPs by month, for the ZIP codes on the map',
+    impact: 'RSVPs by role, experience and speciality',
+    interests: 'RSVPs by interest',
+    roleSpeciality: 'builders by role and speciality',
+    retention: 'builders by month, and by hack nights attended',
+    cohorts: 'builders by first month, and by month attended',
+    demographics: 'builders by gender and self-identification',
+    topics: 'builders by topic',
+    distance: 'builders by distance band, and out of state'
+} as const;
+
+export type Query = keyof typeof QUERIES;
+
+/**
+ * Share of ε spent on which ZIP codes make the map. Every ZIP code that
+ * could appear is noised, and one has to stand out from all of their
+ * noise, so this query needs the most.
+ */
+const ZIP_SHARE = 0.5;
+
+/** How much one builder can change all the counts of each query (L1) */
+export type Sensitivities = Partial<Record<Query, number>>;
+
+/** Most months a builder can come to in one edition */
+const MONTHS_PER_YEAR = 12;
+
+interface SensitivityOptions {
+    maxRsvps: number;
+    /** Most options one answer to a question can hold */
+    maxPicks: (label: string) => number;
+    /** Whether distances are published */
+    distance: boolean;
+}
+
+/**
+ * The sensitivity of every query to one builder, from public facts only:
+ * the cap on RSVPs per builder, the declared options of each question, the
+ * twelve months of the year and the list of topics.
+ */
+export function computeSensitivities({
+    maxRsvps,
+    maxPicks,
+    distance
+}: SensitivityOptions): Sensitivities {
+    return {
+        // Each of a builder's RSVPs falls in one month and one ZIP code...
+        growth: maxRsvps,
+        guests: 1,
+        zips: 1,
+        zipMonths: maxRsvps,
+        // ...and picks up to every option of each question
+        impact:
+            maxRsvps *
+            (maxPicks(QUESTIONS.roles) +
+                maxPicks(QUESTIONS.experience) +
+                maxPicks(QUESTIONS.specialities)),
+        interests: maxRsvps * maxPicks(QUESTIONS.interests),
+        // Builders once each: in the count, in each of their roles, and
+        // in each of those roles' specialities
+        roleSpeciality:
+            1 +
+            maxPicks(QUESTIONS.roles) * (1 + maxPicks(QUESTIONS.specialities)),
+        // First-timer or returning in each month they came, back from the
+        // month before in all but the first, and one attendance bucket
+        retention: 2 * MONTHS_PER_YEAR,
+        // One cohort, and each month they came
+        cohorts: 1 + MONTHS_PER_YEAR,
+        // A respondent to each question, and each option they picked
+        demographics:
+            2 + maxPicks(QUESTIONS.gender) + maxPicks(QUESTIONS.identity),
+        topics: 1 + TOPICS.length,
+        ...(distance && { distance: 2 })
+    };
+}
+
+export interface NoiseOptions {
+    mechanism: NoiseMechanism;
+    /** Privacy budget for the whole edition */
+    epsilon: number;
+    /** Keeps the noise reproducible; anyone who has it can remove the noise */
+    seed: string;
+    /** RSVPs counted per builder at most, see `capRsvps` */
+    maxRsvps: number;
+    sensitivities: Sensitivities;
+}
+
+/**
+ * Seeded uniform generator on [0, 1) (sfc32), so reruns match exactly. Its
+ * 128-bit state is the SHA-256 of the seed, so the seed cannot be found by
+ * trying every state: a 32-bit seed hash could be searched offline against
+ * the published counts, and the noise taken back out.
+ */
+export function createRng(seed: string) {
+    const digest = createHash('sha256').update(seed).digest();
+    let a = digest.readUInt32LE(0),
+        b = digest.readUInt32LE(4),
+        c = digest.readUInt32LE(8),
+        d = digest.readUInt32LE(12);
+
+    return () => {
+        a >>>= 0;
+        b >>>= 0;
+        c >>>= 0;
+        d >>>= 0;
+        const t = (((a + b) | 0) + d) | 0;
+        d = (d + 1) | 0;
+        a = b ^ (b >>> 9);
+        b = (c + (c << 3)) | 0;
+        c = (c << 21) | (c >>> 11);
+        c = (c + t) | 0;
+        return (t >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Adds noise to counts under a fixed privacy budget, protecting whole
+ * builders rather than single RSVPs. Each query may be answered once, with
+ * ε split between them, and its noise is calibrated to how much one builder
+ * can change its counts. Noisy counts are rounded and clamped at
+ * zero, which costs nothing.
+ */
+export function createNoiseStage({
+    mechanism,
+    epsilon,
+    seed,
+    maxRsvps,
+    sensitivities
+}: NoiseOptions) {
+    const random = createRng(seed);
+    const queries = Object.keys(sensitivities) as Query[];
+    const epsilonOf = (query: Query) =>
+        query === 'zips'
+            ? epsilon * ZIP_SHARE
+            : (epsilon * (1 - ZIP_SHARE)) / (queries.length - 1);
+    const spent = new Set<Query>();
+
+    const report: NoiseReport = {
+        mechanism,
+        epsilon,
+        maxRsvps,
+        queries: queries.map(query => ({
+            query: QUERIES[query],
+            epsilon: epsilonOf(query),
+            sensitivity: sensitivities[query]!
+        }))
+    };
+
+    /** Typical size of a query's noise */
+    const scaleOf = (query: Query) => sensitivities[query]! / epsilonOf(query);
+
+    // Two-sided geometric: the difference of two geometric draws
+    const geometric = (scale: number) => {
+        const alpha = Math.exp(-1 / scale);
+        const draw = () => Math.floor(Math.log(1 - random()) / Math.log(alpha));
+        return draw() - draw();
+    };
+
+    const laplace = (scale: number): number => {
+        const u = random() - 0.5;
+        // The one draw whose logarithm is infinite
+        if (u === -0.5) return laplace(scale);
+        return -Math.sign(u) * Math.log(1 - 2 * Math.abs(u)) * scale;
+    };
+
+    /** Answers a query: returns a function that noises its counts */
+    function spend(query: Query) {
+        if (!queries.includes(query)) {
+            throw new Error(`The ${QUERIES[query]} query has no budget`);
+        }
+        if (spent.has(query)) {
+            throw new Error(`The ${QUERIES[query]} query was already answered`);
+        }
+        spent.add(query);
+
+        const scale = scaleOf(query);
+        return (count: number) =>
+            Math.max(
+                0,
+                Math.round(
+                    count +
+                        (mechanism === 'geometric'
+                            ? geometric(scale)
+                            : laplace(scale))
+                )
+            );
+    }
+
+    /**
+     * A count that, among `cells` counts of a query that are noise only,
+     * about one reaches
+     */
+    function threshold(query: Query, cells: number) {
+        return Math.ceil(scaleOf(query) * Math.log(Math.max(cells, 2) / 2));
+    }
+
+    return { report, spend, threshold };
+}
+
+export type NoiseStage = ReturnType<typeof createNoiseStage>;
+
+type Noiser = ReturnType<NoiseStage['spend']>;
+
+/** One line per query, with the typical size of its noise */
+export function formatNoiseReport({ epsilon, maxRsvps, queries }: NoiseReport) {
+    return [
+        `ε ${epsilon} split between ${queries.length} queries, half of it on the map's ZIP codes, counting at most ${maxRsvps} RSVPs per builder`,
+        ...queries.map(
+            ({ query, epsilon: queryEpsilon, sensitivity }) =>
+                `${query}: sensitivity ${sensitivity}, typical noise ±${Math.round(sensitivity / queryEpsilon)}`
+        )
+    ];
+}
+
+/**
+ * Keeps each builder's first `maxRsvps` RSVPs, so one builder moves the
+ * per-RSVP counts by a bounded amount. Registrations are in event order.
+ */
+export function capRsvps(registrations: Registration[], maxRsvps: number) {
+    const counted = new Map<string, number>();
+    return registrations.filter(({ guestKey }) => {
+        const count = (counted.get(guestKey) ?? 0) + 1;
+        counted.set(guestKey, count);
+        return count <= maxRsvps;
+    });
+}
+
+/**
+ * Noises the count of every option in `domain`, not just those that were
+ * picked, since which options appear would give the rest away
+ */
+function noiseNamedValues(
+    noisy: Noiser,
+    values: NamedValue[],
+    domain: string[]
+): NamedValue[] {
+    const counts = new Map(values.map(v => [v.name, v.value]));
+    return domain
+        .map(name => ({ name, value: noisy(counts.get(name) ?? 0) }))
+        .sort(byValueDesc);
+}
+
+/** Every month with a hack night gets a count, even with no RSVPs */
+export function noiseGrowthStats(
+    noise: NoiseStage,
+    growth: GrowthStat[],
+    months: string[]
+): GrowthStat[] {
+    const noisy = noise.spend('growth');
+    const counts = new Map(growth.map(m => [m.fullRequest, m.count ?? 0]));
+    return months.map(month => ({
+        month: toMonthLabel(month),
+        fullRequest: month,
+        count: noisy(counts.get(month) ?? 0)
+    }));
+}
+
+/** The RSVP total is the sum of the noisy months, so the two agree */
+export function noiseGeneralStats(
+    noise: NoiseStage,
+    stats: GeneralStats,
+    growth: GrowthStat[]
+): GeneralStats {
+    const totalRegistrations = growth.reduce(
+        (sum, m) => sum + (m.count ?? 0),
+        0
+    );
+    return {
+        ...stats,
+        totalRegistrations,
+        uniqueGuests: Math.min(
+            noise.spend('guests')(stats.uniqueGuests ?? 0),
+            totalRegistrations
+        )
+    };
+}
+
+/** Splits `total` in proportion to `weights`, in whole numbers */
+function apportion(total: number, weights: Map<string, number>) {
+    const sum = [...weights.values()].reduce((a, b) => a + b, 0);
+    if (sum === 0) return new Map<string, number>();
+
+    const shares = [...weights].map(([key, weight]) => {
+        const exact = (total * weight) / sum;
+        return { key, count: Math.floor(exact), rest: exact % 1 };
+    });
+    // Largest remainders get the units left over
+    let left = total - shares.reduce((acc, s) => acc + s.count, 0);
+    for (const share of [...shares].sort(
+        (a, b) => b.rest - a.rest || compareStrings(a.key, b.key)
+    )) {
+        if (left-- <= 0) break;
+        share.count++;
+    }
+
+    return new Map(
+        shares.filter(s => s.count > 0).map(s => [s.key, s.count] as const)
+    );
+}
+
+interface ZipNoiseOptions {
+    /** Every ZIP code that could appear, whether or not it is in the data */
+    domain: string[];
+    /** Builders per ZIP code, each at their latest answer */
+    builders: ZipCounts;
+    /** Noisy RSVPs per month */
+    growth: GrowthStat[];
+    /** Noisy RSVP total, which the ZIP counts add up to */
+    total: number;
+    /** Year total a ZIP code needs to be kept */
+    minCount: number;
+}
+
+/**
+ * Picks the map's ZIP codes from noisy builder counts over the whole
+ * domain, which one builder changes by one, then shares out the RSVPs:
+ * - ZIPs under the level pure noise reaches are dropped, or thousands of
+ *   empty ZIPs would land on the map
+ * - the RSVP total is shared out between the ZIPs left, in proportion to
+ *   their builders, and ZIPs left under `minCount` are dropped in turn
+ * - each ZIP's RSVPs are spread over the months by its own noisy monthly
+ *   counts (or the year's, when all of its are zero), so the time-lapse
+ *   ends at the ZIP counts
+ *
+ * When no ZIP is left at all, the map is empty.
+ */
+export function noiseZipTimeline(
+    noise: NoiseStage,
+    timeline: ZipTimeline,
+    { domain, builders, growth, total, minCount }: ZipNoiseOptions
+): ZipTimeline {
+    const noisyBuilders = noise.spend('zips');
+    const floor = noise.threshold('zips', domain.length);
+
+    const weights = new Map<string, number>();
+    for (const zip of domain) {
+        const count = noisyBuilders(builders[zip] ?? 0);
+        if (count >= floor) weights.set(zip, count);
+    }
+
+    let totals = apportion(total, weights);
+    for (;;) {
+        const small = [...weights.keys()].filter(
+            zip => (totals.get(zip) ?? 0) < minCount
+        );
+        if (small.length === 0) break;
+        for (const zip of small) weights.delete(zip);
+        totals = apportion(total, weights);
+    }
+
+    // Answered for the ZIPs the noise already picked, which are public
+    const noisyMonths = noise.spend('zipMonths');
+    const byMonth = new Map(timeline.map(m => [m.fullRequest, m.counts]));
+    const yearWeights = new Map(growth.map(m => [m.fullRequest, m.count ?? 0]));
+    const months = growth.map(() => new Map<string, number>());
+
+    for (const zip of [...totals.keys()].sort(compareStrings)) {
+        const monthWeights = new Map(
+            growth.map(({ fullRequest }) => [
+                fullRequest,
+                noisyMonths(byMonth.get(fullRequest)?.[zip] ?? 0)
+            ])
+        );
+        const shares = apportion(
+            totals.get(zip)!,
+            [...monthWeights.values()].some(w => w > 0)
+                ? monthWeights
+                : yearWeights
+        );
+        growth.forEach(({ fullRequest }, idx) => {
+            const count = shares.get(fullRequest);
+            if (count) months[idx].set(zip, count);
+        });
+    }
+
+    return growth.map(({ month, fullRequest }, idx) => ({
+        month,
+        fullRequest,
+        counts: Object.fromEntries(months[idx])
+    }));
+}
+
+/** The year's ZIP counts as the sum of its months, so the two agree */
+export function sumZipTimeline(timeline: ZipTimeline) {
+    const totals = new Map<string, number>();
+    for (const { counts } of timeline) {
+        for (const [zip, count] of Object.entries(counts)) {
+            totals.set(zip, (totals.get(zip) ?? 0) + count);
+        }
+    }
+
+    const zipCounts: ZipCounts = {};
+    for (const zip of [...totals.keys()].sort(compareStrings)) {
+        zipCounts[zip] = totals.get(zip)!;
+    }
+    return zipCounts;
+}
+
+/** `options` lists the declared options of a question */
+export function noiseImpactStats(
+    noise: NoiseStage,
+    stats: ImpactStats,
+    options: (label: string) => string[]
+): ImpactStats {
+    const noisy = noise.spend('impact');
+    return {
+        roles: noiseNamedValues(noisy, stats.roles, options(QUESTIONS.roles)),
+        experience: noiseNamedValues(
+            noisy,
+            stats.experience,
+            options(QUESTIONS.experience)
+        ),
+        specialities: noiseNamedValues(
+            noisy,
+            stats.specialities,
+            options(QUESTIONS.specialities)
+        )
+    };
+}
+
+export function noiseInterestsStats(
+    noise: NoiseStage,
+    stats: InterestsStats,
+    options: (label: string) => string[]
+): InterestsStats {
+    return {
+        interests: noiseNamedValues(
+            noise.spend('interests'),
+            stats.interests,
+            options(QUESTIONS.interests)
+        )
+    };
+}
+
+/** Every declared role against every declared speciality */
+export function noiseRoleSpecialityStats(
+    noise: NoiseStage,
+    stats: RoleSpecialityStats,
+    options: (label: string) => string[]
+): RoleSpecialityStats {
+    const noisy = noise.spend('roleSpeciality');
+    const builders = noisy(stats.builders);
+    const roles = noiseNamedValues(
+        noisy,
+        stats.roles,
+        options(QUESTIONS.roles)
+    );
+
+    const declared = options(QUESTIONS.specialities);
+    const matrix = roles.map(({ name }) => {
+        const row = stats.counts[stats.roles.findIndex(r => r.name === name)];
+        return declared.map(speciality =>
+            noisy(row?.[stats.specialities.indexOf(speciality)] ?? 0)
+        );
+    });
+
+    // Most common specialities first, as without noise
+    const columns = declared
+        .map((name, idx) => ({
+            name,
+            value: matrix.reduce((sum, row) => sum + row[idx], 0),
+            idx
+        }))
+        .sort(byValueDesc);
+
+    return {
+        builders,
+        roles,
+        specialities: columns.map(c => c.name),
+        counts: matrix.map(row => columns.map(c => row[c.idx]))
+    };
+}
+
+/**
+ * Noises the monthly counts, the builders who came back from the month
+ * before, and the attendance buckets. Everything else is worked out from
+ * those: each month's `retained` share, the retention rate, and the
+ * average from the hero's noisy totals. Returns the noisy turnover for the
+ * privacy stage.
+ */
+export function noiseRetentionStats(
+    noise: NoiseStage,
+    stats: RetentionStats,
+    turnover: MonthlyTurnover[],
+    months: string[],
+    general: GeneralStats
+): { stats: RetentionStats; turnover: MonthlyTurnover[] } {
+    const noisy = noise.spend('retention');
+    const byMonth = new Map(stats.monthly.map(m => [m.fullRequest, m]));
+    const stayedByMonth = new Map(turnover.map(t => [t.fullRequest, t.stayed]));
+
+    const active = months.map(month => {
+        const m = byMonth.get(month);
+        return {
+            firstTimers: noisy(m?.firstTimers ?? 0),
+            returning: noisy(m?.returning ?? 0)
+        };
+    });
+    const noisyTurnover = months.map((month, idx): MonthlyTurnover => {
+        if (idx === 0) return { fullRequest: month, previous: 0, stayed: 0 };
+        const previous =
+            active[idx - 1].firstTimers + active[idx - 1].returning;
+        return {
+            fullRequest: month,
+            previous,
+            stayed: Math.min(noisy(stayedByMonth.get(month) ?? 0), previous)
+        };
+    });
+
+    const attendanceDistribution = stats.attendanceDistribution.map(b => ({
+        ...b,
+        value: noisy(b.value)
+    }));
+    const builders = attendanceDistribution.reduce(
+        (sum, b) => sum + b.value,
+        0
+    );
+    const { totalRegistrations, uniqueGuests } = general;
+
+    return {
+        stats: {
+            retentionRate: toPercent(
+                builders - attendanceDistribution[0].value,
+                builders
+            ),
+            averageEventsPerBuilder: uniqueGuests
+                ? Math.round(((totalRegistrations ?? 0) / uniqueGuests) * 10) /
+                  10
+                : 0,
+            monthly: months.map((month, idx) => ({
+                month: toMonthLabel(month),
+                fullRequest: month,
+                ...active[idx],
+                retained:
+                    idx > 0
+                        ? toPercent(
+                              noisyTurnover[idx].stayed,
+                              noisyTurnover[idx].previous
+                          )
+                        : null
+            })),
+            attendanceDistribution
+        },
+        turnover: noisyTurnover
+    };
+}
+
+/** A row for every month with a hack night; empty cohorts are left out */
+export function noiseCohortStats(
+    noise: NoiseStage,
+    cohorts: CohortRow[],
+    months: string[]
+): CohortRow[] {
+    const noisy = noise.spend('cohorts');
+    const byMonth = new Map(cohorts.map(c => [c.fullRequest, c]));
+    const lastMonth = months[months.length - 1];
+
+    return months
+        .map((month): CohortRow => {
+            const cohort = byMonth.get(month);
+            const size = noisy(cohort?.size ?? 0);
+            return {
+                month: toMonthLabel(month),
+                fullRequest: month,
+                size,
+                retention: Array.from(
+                    { length: monthsBetween(month, lastMonth) + 1 },
+                    (_, offset) => {
+                        const count = Math.min(
+                            noisy(cohort?.retention[offset]?.count ?? 0),
+                            size
+                        );
+                        return {
+                            offset,
+                            count,
+                            percent: toPercent(count, size)
+                        };
+                    }
+                )
+            };
+        })
+        .filter(c => c.size > 0);
+}
+
+/** Options noised down to zero are left out, like options nobody picked */
+export function noiseDemographicsStats(
+    noise: NoiseStage,
+    stats: DemographicsStats,
+    options: (label: string) => string[]
+): DemographicsStats {
+    const noisy = noise.spend('demographics');
+    const breakdown = (b: DemographicBreakdown): DemographicBreakdown => {
+        const respondents = noisy(b.respondents);
+        return {
+            ...b,
+            respondents,
+            groups: noiseNamedValues(noisy, b.groups, options(b.question))
+                .map(g => ({ ...g, value: Math.min(g.value, respondents) }))
+                .filter(g => g.value > 0)
+                .map(g => ({ ...g, percent: toPercent(g.value, respondents) }))
+        };
+    };
+
+    return {
+        ...stats,
+        gender: breakdown(stats.gender),
+        identity: breakdown(stats.identity)
+    };
+}
+
+/**
+ * Noises the respondents and every topic. Keywords come from the answers
+ * themselves, so there is no public list to noise over: they are left out.
+ */
+export function noiseTextStats(noise: NoiseStage, stats: TextStats): TextStats {
+    const noisy = noise.spend('topics');
+    const respondents = noisy(stats.respondents);
+    return {
+        ...stats,
+        respondents,
+        topics: noiseNamedValues(
+            noisy,
+            stats.topics,
+            TOPICS.map(t => t.name)
+        )
+            .filter(t => t.value > 0)
+            .map(t => ({
+                ...t,
+                percent: toPercent(Math.min(t.value, respondents), respondents)
+            })),
+        keywords: []
+    };
+}
+
+/** The builder count and median are worked out from the noisy bands */
+export function noiseDistanceStats(
+    noise: NoiseStage,
+    stats: DistanceStats
+): DistanceStats {
+    const noisy = noise.spend('distance');
+    const distribution = stats.distribution.map(band => ({
+        ...band,
+        value: noisy(band.value)
+    }));
+    const builders = distribution.reduce((sum, band) => sum + band.value, 0);
+    const outOfState = Math.min(noisy(stats.outOfState ?? 0), builders);
+
+    return {
+        ...stats,
+        builders,
+        medianMiles: medianFromDistribution(distribution),
+        distribution,
+        outOfState,
+        outOfStatePercent: toPercent(outOfState, builders)
+    };
+}
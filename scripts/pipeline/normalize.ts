@@ -0,0 +1,254 @@
+import type {
+    LumaRegistrationAnswer,
+    QuestionGroup,
+    QuestionVariation
+} from '../../src/types/luma';
+import { compareStrings } from './sort';
+
+/** Question types whose answers are picked from a fixed option list */
+const CHOICE_TYPES = new Set(['multi-select', 'dropdown']);
+
+export interface NormalizedAnswer {
+    canonicalLabel: string;
+    questionType: string;
+    /** Option-matched values for choice questions, trimmed text otherwise */
+    values: string[];
+    /** Pieces of a choice answer that match none of the declared options */
+    unmatched: string[];
+}
+
+/** A registration's answers keyed by canonical question label */
+export type NormalizedAnswers = Map<string, NormalizedAnswer>;
+
+export interface NormalizationReport {
+    /** canonical label -> unmatched value -> occurrences */
+    unmatchedValues: Map<string, Map<string, number>>;
+    /** answer label -> occurrences, for questions missing from the groups */
+    unknownQuestions: Map<string, number>;
+}
+
+interface IndexedQuestion {
+    group: QuestionGroup;
+    variation: QuestionVariation;
+    /** lowercased option -> option as declared, across all variations */
+    options: Map<string, string>;
+}
+
+function key(...parts: string[]) {
+    return parts.map(p => p.trim().toLowerCase()).join('\u0000');
+}
+
+function increment(counts: Map<string, number>, value: string) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+}
+
+/**
+ * Splits a comma-joined choice answer against the declared options. Options
+ * may themselves contain commas, so the longest run of pieces that forms an
+ * option wins before falling back to single pieces.
+ */
+function splitChoices(raw: string, options: Map<string, string>) {
+    const pieces = raw.split(',');
+    const values: string[] = [];
+    const unmatched: string[] = [];
+
+    let i = 0;
+    while (i < pieces.length) {
+        let matched = false;
+        for (let j = pieces.length; j > i; j--) {
+            const option = options.get(key(pieces.slice(i, j).join(',')));
+            if (option) {
+                values.push(option);
+                i = j;
+                matched = true;
+                break;
+            }
+        }
+
+        if (!matched) {
+            const piece = pieces[i].trim();
+            if (piece) unmatched.push(piece);
+            i++;
+        }
+    }
+
+    return { values, unmatched };
+}
+
+function rawText(answer: LumaRegistrationAnswer) {
+    const raw = answer.answer ?? answer.value;
+    if (Array.isArray(raw)) return raw.join(', ');
+    return typeof raw === 'string' ? raw : '';
+}
+
+/**
+ * Builds a normalizer that folds raw Luma registration answers onto the
+ * canonical questions in `question-groups.json`.
+ *
+ * Answers are matched to a variation by question id and label together,
+ * since Luma reuses ids when a question is relabelled (e.g. "Describe
+ * yourself" and "Select all your specialities." share an id). Label alone is
+ * the fallback. Every unmatched option and unknown question is tallied in
+ * `report` so the pipeline can surface survey drift.
+ */
+export function createAnswerNormalizer(groups: QuestionGroup[]) {
+    const byIdAndLabel = new Map<string, IndexedQuestion>();
+    const byLabel = new Map<string, IndexedQuestion>();
+
+    for (const group of groups) {
+        const options = new Map<string, string>();
+        for (const variation of group.variations) {
+            for (const option of variation.options ?? []) {
+                options.set(key(option), option);
+            }
+        }
+
+        for (const variation of group.variations) {
+            const indexed = { group, variation, options };
+            byIdAndLabel.set(key(variation.id, variation.label), indexed);
+            if (!byLabel.has(key(variation.label))) {
+                byLabel.set(key(variation.label), indexed);
+            }
+        }
+    }
+
+    const report: NormalizationReport = {
+        unmatchedValues: new Map(),
+        unknownQuestions: new Map()
+    };
+
+    function normalizeAnswer(
+        answer: LumaRegistrationAnswer,
+        { group, variation, options }: IndexedQuestion
+    ): NormalizedAnswer {
+        const canonicalLabel = group.canonical_label;
+        const questionType = variation.question_type;
+
+        if (!CHOICE_TYPES.has(questionType)) {
+            const text = rawText(answer).trim();
+            return {
+                canonicalLabel,
+                questionType,
+                values: text ? [text] : [],
+                unmatched: []
+            };
+        }
+
+        const raw = answer.answer ?? answer.value;
+        let values: string[] = [];
+        let unmatched: string[] = [];
+
+        if (Array.isArray(raw)) {
+            for (const item of raw) {
+                const option = options.get(key(item));
+                if (option) values.push(option);
+                else if (item.trim()) unmatched.push(item.trim());
+            }
+        } else if (typeof raw === 'string') {
+            const whole = options.get(key(raw));
+            if (whole) values = [whole];
+            else ({ values, unmatched } = splitChoices(raw, options));
+        }
+
+        for (const value of unmatched) {
+            let counts = report.unmatchedValues.get(canonicalLabel);
+            if (!counts) {
+                counts = new Map();
+                report.unmatchedValues.set(canonicalLabel, counts);
+            }
+            increment(counts, value);
+        }
+
+        return {
+            canonicalLabel,
+            questionType,
+            // A guest who ticks the same option twice still counts once
+            values: [...new Set(values)],
+            unmatched
+        };
+    }
+
+    function normalize(answers: LumaRegistrationAnswer[]): NormalizedAnswers {
+        const normalized: NormalizedAnswers = new Map();
+
+        for (const answer of answers) {
+            const indexed =
+                byIdAndLabel.get(key(answer.question_id, answer.label)) ??
+                byLabel.get(key(answer.label));
+
+            if (!indexed) {
+                increment(report.unknownQuestions, answer.label.trim());
+                continue;
+            }
+
+            const result = normalizeAnswer(answer, indexed);
+            const existing = normalized.get(result.canonicalLabel);
+            if (existing) {
+                // Two variations of one question on the same form: merge
+                existing.values = [
+                    ...new Set([...existing.values, ...result.values])
+                ];
+                existing.unmatched.push(...result.unmatched);
+            } else {
+                normalized.set(result.canonicalLabel, result);
+            }
+        }
+
+        return normalized;
+    }
+
+    function hasQuestion(canonicalLabel: string) {
+        return groups.some(g => g.canonical_label === canonicalLabel);
+    }
+
+    /** Declared options of a choice question, across all its variations */
+    function options(canonicalLabel: string) {
+        const variations =
+            groups.find(g => g.canonical_label === canonicalLabel)
+                ?.variations ?? [];
+        return [...new Set(variations.flatMap(v => v.options ?? []))];
+    }
+
+    /**
+     * Most options one answer can hold: one for a dropdown, every option
+     * for a multi-select
+     */
+    function maxPicks(canonicalLabel: string) {
+        const variations =
+            groups.find(g => g.canonical_label === canonicalLabel)
+                ?.variations ?? [];
+        return variations.every(v => v.question_type === 'dropdown')
+            ? 1
+            : options(canonicalLabel).length;
+    }
+
+    return { normalize, hasQuestion, options, maxPicks, report };
+}
+
+export type AnswerNormalizer = ReturnType<typeof createAnswerNormalizer>;
+
+/** Formats the normalization report as warning lines, most frequent first */
+export function formatNormalizationReport(report: NormalizationReport) {
+    const byCount = (a: [string, number], b: [string, number]) =>
+        b[1] - a[1] || compareStrings(a[0], b[0]);
+
+    const lines: string[] = [];
+
+    for (const [label, counts] of [...report.unmatchedValues].sort((a, b) =>
+        compareStrings(a[0], b[0])
+    )) {
+        const values = [...counts]
+            .sort(byCount)
+            .map(([value, count]) => `"${value}" (${count})`)
+            .join(', ');
+        lines.push(`unmatched options for "${label}": ${values}`);
+    }
+
+    for (const [label, count] of [...report.unknownQuestions].sort(byCount)) {
+        lines.push(
+            `question not in question-groups.json: "${label}" (${count})`
+        );
+    }
+
+    return lines;
+}
@@ -0,0 +1,22 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+/** Serializes exactly like Prettier formats the checked-in JSON files */
+export function serializeJson(data: unknown) {
+    return `${JSON.stringify(data, null, 4)}\n`;
+}
+
+/**
+ * Writes `data` to `file`, skipping the write when the contents are already
+ * identical. Returns whether the file changed.
+ */
+export async function writeJson(file: string, data: unknown) {
+    const contents = serializeJson(data);
+
+    const previous = await readFile(file, 'utf8').catch(() => null);
+    if (previous === contents) return false;
+
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, contents);
+    return true;
+}
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { ZipTimeline } from '../../src/types/stats';
+import {
+    createPrivacyGuard,
+    protectGrowthStats,
+    protectZipTimeline
+} from './privacy';
+
+const month = (fullRequest: string, count: number) => ({
+    month: fullRequest,
+    fullRequest,
+    count
+});
+
+describe('nullSmallCells', () => {
+    it('hides the next smallest cell when only one cell is small', () => {
+        const guard = createPrivacyGuard(5);
+        assert.deepEqual(guard.nullSmallCells('f', 'a', [12, 3, 0, 7, 40]), [
+            12,
+            null,
+            0,
+            null,
+            40
+        ]);
+    });
+
+    it('hides nothing more when several cells are small', () => {
+        const guard = createPrivacyGuard(5);
+        assert.deepEqual(guard.nullSmallCells('f', 'a', [12, 3, 2, 7]), [
+            12,
+            null,
+            null,
+            7
+        ]);
+    });
+
+    it('leaves a single month unrecoverable from the year', () => {
+        const guard = createPrivacyGuard(5);
+        const growth = [
+            month('2025-01', 20),
+            month('2025-02', 4),
+            month('2025-03', 9),
+            month('2025-04', 31)
+        ];
+        const published = protectGrowthStats(guard, growth);
+
+        assert.deepEqual(
+            published.map(m => m.count),
+            [20, null, null, 31]
+        );
+        assert.deepEqual(
+            guard.report.suppressions.map(s => s.complementary ?? false),
+            [false, true]
+        );
+    });
+});
+
+describe('protectZipTimeline', () => {
+    const timeline: ZipTimeline = [
+        { month: 'Jan', fullRequest: '2025-01', counts: { '33101': 6 } },
+        { month: 'Feb', fullRequest: '2025-02', counts: { '33101': 2 } },
+        {
+            month: 'Mar',
+            fullRequest: '2025-03',
+            counts: { '33101': 1, '33133': 3 }
+        },
+        {
+            month: 'Apr',
+            fullRequest: '2025-04',
+            counts: { '33101': 4, '33133': 4, '33139': 2 }
+        },
+        { month: 'May', fullRequest: '2025-05', counts: { '33101': 3 } }
+    ];
+    const published = { '33101': 16, '33133': 7 };
+
+    it('only moves a total by 0 or at least the minimum', () => {
+        const guard = createPrivacyGuard(5);
+        const totals = protectZipTimeline(guard, timeline, published);
+
+        for (const zip of Object.keys(published)) {
+            let previous = 0;
+            for (const { counts } of totals) {
+                const step = (counts[zip] ?? 0) - previous;
+                assert.ok(
+                    step === 0 || step >= guard.minCellSize,
+                    `${zip} moved by ${step}`
+                );
+                previous = counts[zip] ?? 0;
+            }
+        }
+    });
+
+    it('ends the year at the published counts', () => {
+        const guard = createPrivacyGuard(5);
+        const totals = protectZipTimeline(guard, timeline, published);
+
+        assert.deepEqual(totals.at(-1)?.counts, published);
+        // 33101's last 3 RSVPs join April's 7 in May
+        assert.deepEqual(
+            totals.map(m => m.counts),
+            [
+                { '33101': 6 },
+                { '33101': 6 },
+                { '33101': 6 },
+                { '33101': 6, '33133': 7 },
+                { '33101': 16, '33133': 7 }
+            ]
+        );
+    });
+});
@@ -0,0 +1,591 @@
+import { privacyConfig } from '../../src/config/privacy';
+import type {
+    CohortRow,
+    DemographicBreakdown,
+    DemographicsStats,
+    DistanceStats,
+    GeneralStats,
+    GrowthStat,
+    ImpactStats,
+    InterestsStats,
+    KeywordTrends,
+    NamedValue,
+    PrivacyReport,
+    RetentionStats,
+    RoleSpecialityStats,
+    TextStats,
+    ZipCounts,
+    ZipTimeline
+} from '../../src/types/stats';
+import type { DemographicKey } from './demographics';
+import { toPercent, type MonthlyTurnover } from './retention';
+
+/** Small cells of a list are merged into this one */
+const OTHER = 'Other';
+
+export type PrivacyGuard = ReturnType<typeof createPrivacyGuard>;
+
+/**
+ * The privacy stage of the pipeline. Every count it lets through is either
+ * zero or at least `minCellSize`: small cells of a list are merged into
+ * "Other", and small cells that cannot be merged are left out or published
+ * as null, along with a second cell when the line adds up to a published
+ * total. `report` records every suppression, by its number of cells only:
+ * the report is published too, and the sum of one hidden cell is the cell.
+ *
+ * Each step can also take a stricter `minSize` for its aggregate, such as
+ * the larger groups demographics are published in.
+ */
+export function createPrivacyGuard(minCellSize = privacyConfig.minCellSize) {
+    const report: PrivacyReport = {
+        minCellSize,
+        suppressions: [],
+        noise: null
+    };
+
+    const isSmall = (value: number, minSize = minCellSize) =>
+        value > 0 && value < minSize;
+
+    function record(
+        file: string,
+        aggregate: string,
+        cells: number,
+        mergedInto: string | null,
+        minSize = minCellSize,
+        complementary = false
+    ) {
+        if (cells === 0) return;
+        report.suppressions.push({
+            file,
+            aggregate,
+            cells,
+            mergedInto,
+            ...(minSize !== minCellSize && { minSize }),
+            ...(complementary && { complementary })
+        });
+    }
+
+    /**
+     * Merges the small cells of a list, and any existing "Other", into one
+     * "Other" at the end. If that is still too small, the next smallest
+     * cells join it, so it never gives the small ones away; the list keeps
+     * its order otherwise. Each published cell comes with the cells it was
+     * made from.
+     */
+    function groupSmallCells(
+        file: string,
+        aggregate: string,
+        values: NamedValue[],
+        minSize = minCellSize
+    ): { cell: NamedValue; from: NamedValue[] }[] {
+        const unchanged = (v: NamedValue) => ({ cell: v, from: [v] });
+        if (!values.some(v => isSmall(v.value, minSize))) {
+            return values.map(unchanged);
+        }
+
+        const existing = values.find(v => v.name.toLowerCase() === 'other');
+        const merged = values.filter(
+            v => isSmall(v.value, minSize) || v === existing
+        );
+
+        const total = () => merged.reduce((sum, v) => sum + v.value, 0);
+        while (isSmall(total(), minSize)) {
+            const [smallest] = values
+                .filter(v => !merged.includes(v) && v.value > 0)
+                .sort((a, b) => a.value - b.value);
+            if (!smallest) break;
+            merged.push(smallest);
+        }
+
+        const kept = values.filter(v => !merged.includes(v)).map(unchanged);
+        if (isSmall(total(), minSize)) {
+            record(file, aggregate, merged.length, null, minSize);
+            return kept;
+        }
+
+        const name = existing?.name ?? OTHER;
+        record(
+            file,
+            aggregate,
+            merged.filter(v => v !== existing).length,
+            name,
+            minSize
+        );
+        return [...kept, { cell: { name, value: total() }, from: merged }];
+    }
+
+    function mergeSmallCells(
+        file: string,
+        aggregate: string,
+        values: NamedValue[],
+        minSize = minCellSize
+    ) {
+        return groupSmallCells(file, aggregate, values, minSize).map(
+            g => g.cell
+        );
+    }
+
+    /** Leaves out the small entries of a keyed count, such as ZIP codes */
+    function dropSmallCounts<T extends Record<string, number>>(
+        file: string,
+        aggregate: string,
+        counts: T,
+        minSize = minCellSize
+    ): T {
+        const small = Object.values(counts).filter(v => isSmall(v, minSize));
+        record(file, aggregate, small.length, null, minSize);
+        return Object.fromEntries(
+            Object.entries(counts).filter(
+                ([, count]) => !isSmall(count, minSize)
+            )
+        ) as T;
+    }
+
+    /**
+     * Publishes small cells of a series or matrix as null. A line with one
+     * small cell loses its next smallest cell too: the months add up to the
+     * year, and a cohort's cells to its size, so a lone null could be worked
+     * out from the total and the rest of the line.
+     */
+    function nullSmallCells(
+        file: string,
+        aggregate: string,
+        values: number[],
+        minSize = minCellSize
+    ) {
+        const hidden = new Set(
+            values.flatMap((v, idx) => (isSmall(v, minSize) ? [idx] : []))
+        );
+        record(file, aggregate, hidden.size, null, minSize);
+
+        if (hidden.size === 1) {
+            const [complement] = values
+                .map((value, idx) => ({ value, idx }))
+                .filter(({ value, idx }) => value > 0 && !hidden.has(idx))
+                .sort((a, b) => a.value - b.value || a.idx - b.idx);
+            if (complement) {
+                hidden.add(complement.idx);
+                record(file, aggregate, 1, null, minSize, true);
+            }
+        }
+
+        return values.map((value, idx) => (hidden.has(idx) ? null : value));
+    }
+
+    /**
+     * Holds back the small steps of series that are published as running
+     * totals, adding them to the next step, so no two totals differ by a
+     * small count. What is still held at the end joins the series' last
+     * step, moved to the end, so every series keeps its sum.
+     */
+    function holdSmallSteps<T extends Record<string, number[]>>(
+        file: string,
+        aggregate: string,
+        series: T,
+        minSize = minCellSize
+    ): T {
+        let held = 0;
+        const steps = Object.entries(series).map(([key, values]) => {
+            const step = values.map(() => 0);
+            let pending = 0;
+            let latest = -1;
+
+            for (const [idx, value] of values.entries()) {
+                pending += value;
+                if (pending >= minSize) {
+                    step[idx] = pending;
+                    pending = 0;
+                    latest = idx;
+                } else if (value > 0) {
+                    held++;
+                }
+            }
+            // A series that never reaches the minimum has no step to join
+            // and stays at zero
+            if (pending > 0 && latest >= 0) {
+                const end = values.length - 1;
+                step[end] = step[latest] + pending;
+                if (latest !== end) step[latest] = 0;
+            }
+            return [key, step];
+        });
+
+        record(file, aggregate, held, 'a later month', minSize);
+        return Object.fromEntries(steps) as T;
+    }
+
+    return {
+        minCellSize,
+        report,
+        groupSmallCells,
+        mergeSmallCells,
+        dropSmallCounts,
+        nullSmallCells,
+        holdSmallSteps
+    };
+}
+
+export function protectGeneralStats(
+    guard: PrivacyGuard,
+    stats: GeneralStats
+): GeneralStats {
+    const [totalRegistrations, uniqueGuests] = guard.nullSmallCells(
+        'precomputed/general-stats.json',
+        'totals',
+        [stats.totalRegistrations ?? 0, stats.uniqueGuests ?? 0]
+    );
+    return { ...stats, totalRegistrations, uniqueGuests };
+}
+
+/** Publishes months with too few RSVPs as null */
+export function protectGrowthStats(
+    guard: PrivacyGuard,
+    stats: GrowthStat[]
+): GrowthStat[] {
+    const counts = guard.nullSmallCells(
+        'precomputed/growth-stats.json',
+        'RSVPs by month',
+        stats.map(m => m.count ?? 0)
+    );
+    return stats.map((m, idx) => ({ ...m, count: counts[idx] }));
+}
+
+export function protectZipCounts(guard: PrivacyGuard, zipCounts: ZipCounts) {
+    return guard.dropSmallCounts('zip-counts.json', 'ZIP codes', zipCounts);
+}
+
+/**
+ * Turns the monthly counts into running totals for the ZIPs in `published`,
+ * which only grow in steps of at least the minimum: two months' totals
+ * would otherwise give away the RSVPs in between. The last month matches
+ * `published`, and ZIPs left off the map are left out of every month.
+ */
+export function protectZipTimeline(
+    guard: PrivacyGuard,
+    timeline: ZipTimeline,
+    published: ZipCounts
+): ZipTimeline {
+    const steps = guard.holdSmallSteps(
+        'precomputed/zip-timeline.json',
+        'RSVPs by month and ZIP code',
+        Object.fromEntries(
+            Object.keys(published).map(zip => [
+                zip,
+                timeline.map(month => month.counts[zip] ?? 0)
+            ])
+        )
+    );
+
+    const totals: ZipCounts = {};
+    return timeline.map((month, idx) => {
+        for (const [zip, step] of Object.entries(steps)) {
+            if (step[idx] > 0) totals[zip] = (totals[zip] ?? 0) + step[idx];
+        }
+        return { ...month, counts: { ...totals } };
+    });
+}
+
+export function protectImpactStats(
+    guard: PrivacyGuard,
+    stats: ImpactStats
+): ImpactStats {
+    const file = 'precomputed/impact-stats.json';
+    return {
+        roles: guard.mergeSmallCells(file, 'roles', stats.roles),
+        experience: guard.mergeSmallCells(file, 'experience', stats.experience),
+        specialities: guard.mergeSmallCells(
+            file,
+            'specialities',
+            stats.specialities
+        )
+    };
+}
+
+export function protectInterestsStats(
+    guard: PrivacyGuard,
+    stats: InterestsStats
+): InterestsStats {
+    return {
+        interests: guard.mergeSmallCells(
+            'precomputed/interests-stats.json',
+            'interests',
+            stats.interests
+        )
+    };
+}
+
+/**
+ * Merges small roles into an "Other" row, summing their rows of the matrix,
+ * then publishes the small cells that are left as null.
+ */
+export function protectRoleSpecialityStats(
+    guard: PrivacyGuard,
+    stats: RoleSpecialityStats
+): RoleSpecialityStats {
+    const file = 'precomputed/role-speciality-stats.json';
+    const groups = guard.groupSmallCells(file, 'roles', stats.roles);
+
+    return {
+        ...stats,
+        roles: groups.map(g => g.cell),
+        counts: groups.map(({ cell, from }) => {
+            const rows = from.map(
+                role => stats.counts[stats.roles.indexOf(role)]
+            );
+            return guard.nullSmallCells(
+                file,
+                `${cell.name} by speciality`,
+                stats.specialities.map((_, idx) =>
+                    rows.reduce((sum, row) => sum + (row[idx] ?? 0), 0)
+                )
+            );
+        })
+    };
+}
+
+/**
+ * Nulls small monthly counts. A month's `retained` share is null too when
+ * the builders it is measured from, or the ones who stayed, are too few:
+ * `turnover` has those counts for each month.
+ */
+export function protectRetentionStats(
+    guard: PrivacyGuard,
+    stats: RetentionStats,
+    turnover: MonthlyTurnover[]
+): RetentionStats {
+    const file = 'precomputed/retention-stats.json';
+    const previous = guard.nullSmallCells(
+        file,
+        "previous month's builders",
+        turnover.map(t => t.previous)
+    );
+    const stayed = guard.nullSmallCells(
+        file,
+        'builders who came back the next month',
+        turnover.map(t => t.stayed)
+    );
+    const firstTimers = guard.nullSmallCells(
+        file,
+        'first-timers by month',
+        stats.monthly.map(m => m.firstTimers ?? 0)
+    );
+    const returning = guard.nullSmallCells(
+        file,
+        'returning builders by month',
+        stats.monthly.map(m => m.returning ?? 0)
+    );
+
+    return {
+        ...stats,
+        monthly: stats.monthly.map((m, idx) => ({
+            ...m,
+            firstTimers: firstTimers[idx],
+            returning: returning[idx],
+            retained:
+                previous[idx] === null || stayed[idx] === null
+                    ? null
+                    : m.retained
+        })),
+        attendanceDistribution: guard.mergeSmallCells(
+            file,
+            'hack nights per builder',
+            stats.attendanceDistribution
+        )
+    };
+}
+
+/** Leaves out cohorts that are too small, and nulls their small cells */
+export function protectCohortStats(
+    guard: PrivacyGuard,
+    cohorts: CohortRow[]
+): CohortRow[] {
+    const file = 'precomputed/cohort-stats.json';
+    const published = guard.dropSmallCounts(
+        file,
+        'cohorts',
+        Object.fromEntries(cohorts.map(c => [c.fullRequest, c.size]))
+    );
+
+    return cohorts
+        .filter(c => c.fullRequest in published)
+        .map(cohort => {
+            const counts = guard.nullSmallCells(
+                file,
+                `${cohort.fullRequest} cohort`,
+                cohort.retention.map(c => c.count ?? 0)
+            );
+            return {
+                ...cohort,
+                retention: cohort.retention.map((cell, idx) => ({
+                    ...cell,
+                    count: counts[idx],
+                    percent: counts[idx] === null ? null : cell.percent
+                }))
+            };
+        });
+}
+
+/** Leaves out months with too few respondents, and nulls small counts */
+export function protectKeywordTrends(
+    guard: PrivacyGuard,
+    trends: KeywordTrends
+): KeywordTrends {
+    const file = 'precomputed/keyword-trends.json';
+    const published = guard.dropSmallCounts(
+        file,
+        'respondents by month',
+        Object.fromEntries(
+            trends.monthly.map(m => [m.fullRequest, m.respondents])
+        )
+    );
+
+    return {
+        ...trends,
+        monthly: trends.monthly
+            .filter(m => m.fullRequest in published)
+            .map(m => {
+                const counts = guard.nullSmallCells(
+                    file,
+                    `${m.fullRequest} keywords`,
+                    trends.keywords.map(k => m.counts[k] ?? 0)
+                );
+                return {
+                    ...m,
+                    counts: Object.fromEntries(
+                        trends.keywords.map((k, idx) => [k, counts[idx]])
+                    )
+                };
+            })
+    };
+}
+
+/**
+ * Merges the options too few builders picked into "Other", so the groups
+ * still account for every respondent and none can be worked out from the
+ * rest. Demographic groups are published at `minGroupSize`, which is
+ * stricter than the minimum cell size. Builders can pick several options,
+ * so "Other" counts the respondents in `answers` who picked any of its
+ * options, and is left out if they are too few. Noised counts come without
+ * answers: "Other" is then the sum of its options, up to the respondents.
+ */
+export function protectDemographicsStats(
+    guard: PrivacyGuard,
+    stats: DemographicsStats,
+    answers?: Record<DemographicKey, string[][]>
+): DemographicsStats {
+    const file = 'precomputed/demographics-stats.json';
+    const minGroupSize = Math.max(stats.minGroupSize, guard.minCellSize);
+
+    const protect = (key: DemographicKey): DemographicBreakdown => {
+        const { respondents, groups } = stats[key];
+        const grouped = guard.groupSmallCells(
+            file,
+            `${key} groups`,
+            groups,
+            minGroupSize
+        );
+        // An "Other" that holds every option says nothing, and groups of
+        // too few respondents are too small whatever they hold
+        const published =
+            respondents < minGroupSize || grouped.every(g => g.from.length > 1)
+                ? []
+                : grouped.flatMap(({ cell, from }) => {
+                      if (from.length === 1) return [cell];
+
+                      const options = new Set(from.map(g => g.name));
+                      const value = answers
+                          ? answers[key].filter(values =>
+                                values.some(v => options.has(v))
+                            ).length
+                          : Math.min(cell.value, respondents);
+                      const [builders] = guard.nullSmallCells(
+                          file,
+                          `${key} "${cell.name}" builders`,
+                          [value],
+                          minGroupSize
+                      );
+                      return builders ? [{ ...cell, value }] : [];
+                  });
+
+        return {
+            ...stats[key],
+            groups: published.map(({ name, value }) => ({
+                name,
+                value,
+                percent: toPercent(value, respondents)
+            })),
+            suppressedGroups:
+                stats[key].suppressedGroups +
+                groups.filter(g => !published.some(p => p.name === g.name))
+                    .length
+        };
+    };
+
+    return {
+        minGroupSize,
+        gender: protect('gender'),
+        identity: protect('identity')
+    };
+}
+
+/** Leaves out keywords and topics too few builders used */
+export function protectTextStats(
+    guard: PrivacyGuard,
+    stats: TextStats
+): TextStats {
+    const file = 'precomputed/text-stats.json';
+    const topics = guard.dropSmallCounts(
+        file,
+        'topics',
+        Object.fromEntries(stats.topics.map(t => [t.name, t.value]))
+    );
+    const keywords = guard.dropSmallCounts(
+        file,
+        'keywords',
+        Object.fromEntries(stats.keywords.map(k => [k.name, k.value]))
+    );
+
+    return {
+        ...stats,
+        minCount: Math.max(stats.minCount, guard.minCellSize),
+        topics: stats.topics.filter(t => t.name in topics),
+        keywords: stats.keywords.filter(k => k.name in keywords)
+    };
+}
+
+export function protectDistanceStats(
+    guard: PrivacyGuard,
+    stats: DistanceStats
+): DistanceStats {
+    const file = 'precomputed/distance-stats.json';
+    const [outOfState] = guard.nullSmallCells(file, 'out of state', [
+        stats.outOfState ?? 0
+    ]);
+
+    return {
+        ...stats,
+        distribution: guard.mergeSmallCells(
+            file,
+            'distance bands',
+            stats.distribution
+        ),
+        outOfState,
+        outOfStatePercent: outOfState === null ? null : stats.outOfStatePercent
+    };
+}
+
+/** One line per suppression, for the console */
+export function formatPrivacyReport({
+    minCellSize,
+    suppressions
+}: PrivacyReport) {
+    return suppressions.map(
+        ({ file, aggregate, cells, mergedInto, minSize, complementary }) => {
+            const plural = cells === 1 ? '' : 's';
+            if (complementary) {
+                return `${file} ${aggregate}: ${cells} more cell${plural} left out, so the small one cannot be worked out from the total`;
+            }
+            return `${file} ${aggregate}: ${cells} cell${plural} under ${minSize ?? minCellSize} ${mergedInto ? `merged into "${mergedInto}"` : 'left out'}`;
+        }
+    );
+}
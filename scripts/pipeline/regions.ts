@@ -0,0 +1,87 @@
+import { getStates } from 'zipcodes-us';
+
+import type {
+    RegionRollup,
+    RegionRollups,
+    ZipCounts,
+    ZipLocation,
+    ZipLocations
+} from '../../src/types/stats';
+import { NEIGHBORHOODS } from './neighborhoods';
+import { byValueDesc } from './sort';
+
+const STATE_NAMES = new Map(getStates().map(s => [s.code, s.name]));
+
+const NEIGHBORHOOD_BY_ZIP = new Map(
+    NEIGHBORHOODS.flatMap(({ name, zips }) => zips.map(zip => [zip, name]))
+);
+
+/**
+ * Sums `zipCounts` into one region per distinct `regionOf` result. ZIPs the
+ * gazetteer could not place, or that `regionOf` skips, are left out.
+ */
+function rollUp(
+    zipCounts: ZipCounts,
+    zipLocations: ZipLocations,
+    regionOf: (zip: string, location: ZipLocation) => string | undefined
+) {
+    const regions = new Map<string, RegionRollup>();
+
+    for (const [zip, count] of Object.entries(zipCounts)) {
+        const location = zipLocations[zip];
+        const name = location && regionOf(zip, location);
+        if (!name) continue;
+
+        const region = regions.get(name);
+        if (!region) {
+            regions.set(name, {
+                name,
+                value: count,
+                zips: 1,
+                bounds: [location.lon, location.lat, location.lon, location.lat]
+            });
+            continue;
+        }
+
+        const [west, south, east, north] = region.bounds;
+        region.value += count;
+        region.zips++;
+        region.bounds = [
+            Math.min(west, location.lon),
+            Math.min(south, location.lat),
+            Math.max(east, location.lon),
+            Math.max(north, location.lat)
+        ];
+    }
+
+    return [...regions.values()].sort(byValueDesc);
+}
+
+/**
+ * Rolls the ZIP counts up to Miami neighborhoods, postal cities, counties
+ * and states. Cities and counties carry the state (`Miami, FL`), since the
+ * same names recur across states.
+ */
+export function computeRegionRollups(
+    zipCounts: ZipCounts,
+    zipLocations: ZipLocations
+): RegionRollups {
+    return {
+        neighborhoods: rollUp(zipCounts, zipLocations, zip =>
+            NEIGHBORHOOD_BY_ZIP.get(zip)
+        ),
+        cities: rollUp(
+            zipCounts,
+            zipLocations,
+            (_, { city, state }) => `${city}, ${state}`
+        ),
+        counties: rollUp(zipCounts, zipLocations, (_, { county, state }) =>
+            county ? `${county}, ${state}` : undefined
+        ),
+        states: rollUp(
+            zipCounts,
+            zipLocations,
+            (_, { state }) => STATE_NAMES.get(state) ?? state
+        )
+    };
+}
@@ -0,0 +1,201 @@
+import type {
+    CohortRow,
+    MonthlyRetention,
+    RetentionStats
+} from '../../src/types/stats';
+import { compareStrings } from './sort';
+import { toMonthLabel, type Registration } from './stats';
+
+/** Buckets for the "how many hack nights has each builder been to" chart */
+const ATTENDANCE_BUCKETS: [name: string, min: number, max: number][] = [
+    ['1', 1, 1],
+    ['2', 2, 2],
+    ['3-5', 3, 5],
+    ['6-10', 6, 10],
+    ['11-20', 11, 20],
+    ['21+', 21, Infinity]
+];
+
+interface GuestHistory {
+    events: number;
+    months: Set<string>;
+    firstMonth: string;
+}
+
+/** Rounds a percentage to one decimal so the output stays stable */
+export function toPercent(part: number, whole: number) {
+    return whole === 0 ? 0 : Math.round((part / whole) * 1000) / 10;
+}
+
+export function buildGuestHistories(registrations: Registration[]) {
+    const histories = new Map<string, GuestHistory>();
+
+    for (const { guestKey, month } of registrations) {
+        const history = histories.get(guestKey);
+        if (!history) {
+            histories.set(guestKey, {
+                events: 1,
+                months: new Set([month]),
+                firstMonth: month
+            });
+            continue;
+        }
+
+        history.events++;
+        history.months.add(month);
+        if (compareStrings(month, history.firstMonth) < 0) {
+            history.firstMonth = month;
+        }
+    }
+
+    return histories;
+}
+
+/** Of one month's builders, how many had come the month before */
+export interface MonthlyTurnover {
+    fullRequest: string;
+    /** Builders the month before; 0 for the first month */
+    previous: number;
+    /** Of those, builders who came back this month */
+    stayed: number;
+}
+
+function activeBuildersByMonth(registrations: Registration[]) {
+    const activeByMonth = new Map<string, Set<string>>();
+    for (const { guestKey, month } of registrations) {
+        let active = activeByMonth.get(month);
+        if (!active) {
+            active = new Set();
+            activeByMonth.set(month, active);
+        }
+        active.add(guestKey);
+    }
+    return activeByMonth;
+}
+
+/**
+ * The counts behind each month's `retained` share, so the privacy stage can
+ * tell when it is measured from too few builders.
+ */
+export function computeMonthlyTurnover(
+    registrations: Registration[]
+): MonthlyTurnover[] {
+    const activeByMonth = activeBuildersByMonth(registrations);
+    const months = [...activeByMonth.keys()].sort(compareStrings);
+
+    return months.map((month, idx) => {
+        if (idx === 0) return { fullRequest: month, previous: 0, stayed: 0 };
+
+        const active = activeByMonth.get(month)!;
+        const previous = activeByMonth.get(months[idx - 1])!;
+        let stayed = 0;
+        for (const guestKey of previous) {
+            if (active.has(guestKey)) stayed++;
+        }
+        return { fullRequest: month, previous: previous.size, stayed };
+    });
+}
+
+/** Share of unique builders (in %) who came to more than one hack night */
+export function calculateRetentionRate(registrations: Registration[]) {
+    const histories = [...buildGuestHistories(registrations).values()];
+    const returning = histories.filter(h => h.events > 1).length;
+    return toPercent(returning, histories.length);
+}
+
+export function computeRetentionStats(
+    registrations: Registration[]
+): RetentionStats {
+    const histories = buildGuestHistories(registrations);
+    const activeByMonth = activeBuildersByMonth(registrations);
+    const turnover = computeMonthlyTurnover(registrations);
+
+    const months = [...activeByMonth.keys()].sort(compareStrings);
+    const monthly = months.map((month, idx): MonthlyRetention => {
+        const active = activeByMonth.get(month)!;
+
+        let firstTimers = 0;
+        for (const guestKey of active) {
+            if (histories.get(guestKey)!.firstMonth === month) firstTimers++;
+        }
+
+        // Of last month's builders, how many came back this month
+        const { previous, stayed } = turnover[idx];
+        const retained = idx > 0 ? toPercent(stayed, previous) : null;
+
+        return {
+            month: toMonthLabel(month),
+            fullRequest: month,
+            firstTimers,
+            returning: active.size - firstTimers,
+            retained
+        };
+    });
+
+    const attendanceDistribution = ATTENDANCE_BUCKETS.map(
+        ([name, min, max]) => ({
+            name,
+            value: [...histories.values()].filter(
+                h => h.events >= min && h.events <= max
+            ).length
+        })
+    );
+
+    return {
+        retentionRate: calculateRetentionRate(registrations),
+        averageEventsPerBuilder:
+            histories.size === 0
+                ? 0
+                : Math.round((registrations.length / histories.size) * 10) / 10,
+        monthly,
+        attendanceDistribution
+    };
+}
+
+/** Whole calendar months from `from` to `to` (both `YYYY-MM`) */
+export function monthsBetween(from: string, to: string) {
+    const [fromYear, fromMonth] = from.split('-').map(Number);
+    const [toYear, toMonth] = to.split('-').map(Number);
+    return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+}
+
+/**
+ * Builds the cohort matrix: builders grouped by the month of their first
+ * hack night, with the share of each cohort that attended N months later.
+ * Rows run up to the last month in the data, so later cohorts are shorter.
+ */
+export function computeCohortStats(registrations: Registration[]) {
+    const histories = buildGuestHistories(registrations);
+    const allMonths = registrations.map(r => r.month).sort(compareStrings);
+    const lastMonth = allMonths[allMonths.length - 1];
+
+    const cohorts = new Map<string, GuestHistory[]>();
+    for (const history of histories.values()) {
+        const members = cohorts.get(history.firstMonth) ?? [];
+        members.push(history);
+        cohorts.set(history.firstMonth, members);
+    }
+
+    return [...cohorts.keys()].sort(compareStrings).map((month): CohortRow => {
+        const members = cohorts.get(month)!;
+        const span = monthsBetween(month, lastMonth);
+
+        const attended = new Array<number>(span + 1).fill(0);
+        for (const { months } of members) {
+            for (const active of months) {
+                attended[monthsBetween(month, active)]++;
+            }
+        }
+
+        return {
+            month: toMonthLabel(month),
+            fullRequest: month,
+            size: members.length,
+            retention: attended.map((count, offset) => ({
+                offset,
+                count,
+                percent: toPercent(count, members.length)
+            }))
+        };
+    });
+}
@@ -0,0 +1,14 @@
+import type { NamedValue } from '../../src/types/stats';
+
+// Locale-independent ordering helpers. `localeCompare` depends on the ICU
+// build of the machine running the pipeline, which would make the emitted
+// files differ between machines.
+
+export function compareStrings(a: string, b: string) {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Sorts by value (descending), breaking ties by name */
+export function byValueDesc(a: NamedValue, b: NamedValue) {
+    return b.value - a.value || compareStrings(a.name, b.name);
+}
@@ -0,0 +1,283 @@
+import type { LumaEventExport } from '../../src/types/luma';
+import type {
+    GeneralStats,
+    GrowthStat,
+    ImpactStats,
+    InterestsStats,
+    MonthlyZipCounts,
+    RoleSpecialityStats,
+    ZipCounts
+} from '../../src/types/stats';
+import type { AnswerNormalizer, NormalizedAnswers } from './normalize';
+import { byValueDesc, compareStrings } from './sort';
+
+/** Luma events are scheduled in Miami; used when an event has no timezone */
+const DEFAULT_TIMEZONE = 'America/New_York';
+
+const MONTH_LABELS = [
+    'Jan',
+    'Feb',
+    'Mar',
+    'Apr',
+    'May',
+    'Jun',
+    'Jul',
+    'Aug',
+    'Sep',
+    'Oct',
+    'Nov',
+    'Dec'
+];
+
+/** Canonical labels (see `question-groups.json`) of the questions we chart */
+export const QUESTIONS = {
+    roles: 'Describe yourself',
+    experience: 'How many years of experience?',
+    interests: 'Select top 3 experience that interest you the most',
+    specialities: 'Select all your specialities.',
+    gender: 'Gender',
+    identity: 'Please select all that describe you',
+    buildingTonight: 'What will you be building tonight?',
+    lastProject: 'What was the last project you built yourself?',
+    zip: 'Zip Code'
+};
+
+/** One approved RSVP to one event */
+export interface Registration {
+    eventId: string;
+    /** `YYYY-MM` in the event's local timezone */
+    month: string;
+    guestKey: string;
+    answers: NormalizedAnswers;
+}
+
+/**
+ * Converts an ISO timestamp to a `YYYY-MM` key in the given timezone, so a
+ * 7pm hack night on the 31st is not counted in the next month (UTC).
+ */
+export function toMonthKey(iso: string, timeZone = DEFAULT_TIMEZONE) {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit'
+    }).formatToParts(new Date(iso));
+
+    const year = parts.find(p => p.type === 'year')?.value;
+    const month = parts.find(p => p.type === 'month')?.value;
+    if (!year || !month) {
+        throw new Error(`Invalid event date "${iso}"`);
+    }
+
+    return `${year}-${month}`;
+}
+
+export function toMonthLabel(monthKey: string) {
+    return MONTH_LABELS[Number(monthKey.slice(5, 7)) - 1];
+}
+
+function eventMonth({ event }: LumaEventExport) {
+    return toMonthKey(event.start_at, event.timezone ?? undefined);
+}
+
+/** Years with at least one event, newest first */
+export function exportYears(exports: LumaEventExport[]) {
+    const years = new Set(exports.map(e => Number(eventMonth(e).slice(0, 4))));
+    return [...years].sort((a, b) => b - a);
+}
+
+/** `YYYY-MM` of every month with an event, in order */
+export function exportMonths(exports: LumaEventExport[]) {
+    return [...new Set(exports.map(eventMonth))].sort(compareStrings);
+}
+
+/** Events that took place in `year` (in their local timezone) */
+export function filterExportsByYear(exports: LumaEventExport[], year: number) {
+    return exports.filter(e => eventMonth(e).startsWith(`${year}-`));
+}
+
+export function buildRegistrations(
+    exports: LumaEventExport[],
+    normalizer: AnswerNormalizer
+) {
+    for (const label of Object.values(QUESTIONS)) {
+        if (!normalizer.hasQuestion(label)) {
+            throw new Error(`question-groups.json has no "${label}" question`);
+        }
+    }
+
+    const registrations: Registration[] = [];
+
+    for (const entry of exports) {
+        const { event, guests } = entry;
+        const month = eventMonth(entry);
+
+        for (const guest of guests) {
+            if (guest.approval_status !== 'approved') continue;
+
+            registrations.push({
+                eventId: event.api_id,
+                month,
+                guestKey:
+                    guest.user_api_id ??
+                    guest.user_email?.trim().toLowerCase() ??
+                    guest.api_id,
+                answers: normalizer.normalize(guest.registration_answers ?? [])
+            });
+        }
+    }
+
+    return registrations;
+}
+
+/**
+ * Each builder's most recent registration that answered `label`, so people
+ * are counted once however many hack nights they came to. Registrations are
+ * in event order, so later answers win.
+ */
+export function latestAnswers(registrations: Registration[], label: string) {
+    const latest = new Map<string, Registration>();
+    for (const registration of registrations) {
+        if (registration.answers.get(label)?.values.length) {
+            latest.set(registration.guestKey, registration);
+        }
+    }
+    return [...latest.values()];
+}
+
+/**
+ * Counts how many registrations picked each value of a canonical question.
+ * This is the single code path behind every option breakdown we publish.
+ */
+export function countAnswers(registrations: Registration[], label: string) {
+    const counts = new Map<string, number>();
+
+    for (const { answers } of registrations) {
+        for (const value of answers.get(label)?.values ?? []) {
+            counts.set(value, (counts.get(value) ?? 0) + 1);
+        }
+    }
+
+    return [...counts]
+        .map(([name, value]) => ({ name, value }))
+        .sort(byValueDesc);
+}
+
+export function computeGeneralStats(
+    exports: LumaEventExport[],
+    registrations: Registration[]
+): GeneralStats {
+    return {
+        totalEvents: exports.length,
+        totalRegistrations: registrations.length,
+        uniqueGuests: new Set(registrations.map(r => r.guestKey)).size
+    };
+}
+
+export function computeGrowthStats(registrations: Registration[]) {
+    const counts = new Map<string, number>();
+    for (const { month } of registrations) {
+        counts.set(month, (counts.get(month) ?? 0) + 1);
+    }
+
+    return [...counts.keys()].sort(compareStrings).map(
+        (month): GrowthStat => ({
+            month: toMonthLabel(month),
+            fullRequest: month,
+            count: counts.get(month)!
+        })
+    );
+}
+
+export function computeImpactStats(registrations: Registration[]): ImpactStats {
+    return {
+        roles: countAnswers(registrations, QUESTIONS.roles),
+        experience: countAnswers(registrations, QUESTIONS.experience),
+        specialities: countAnswers(registrations, QUESTIONS.specialities)
+    };
+}
+
+/**
+ * Cross-tabulates roles against specialities, per builder: how many
+ * founders also do firmware, and so on. Uses each builder's latest
+ * registration that listed specialities.
+ */
+export function computeRoleSpecialityStats(
+    registrations: Registration[]
+): RoleSpecialityStats {
+    const answered = latestAnswers(
+        registrations,
+        QUESTIONS.specialities
+    ).filter(r => r.answers.get(QUESTIONS.roles)?.values.length);
+
+    const roles = countAnswers(answered, QUESTIONS.roles);
+    const specialities = countAnswers(answered, QUESTIONS.specialities).map(
+        s => s.name
+    );
+
+    const counts = roles.map(() => specialities.map(() => 0));
+    for (const { answers } of answered) {
+        for (const role of answers.get(QUESTIONS.roles)!.values) {
+            const row = counts[roles.findIndex(r => r.name === role)];
+            for (const speciality of answers.get(QUESTIONS.specialities)!
+                .values) {
+                row[specialities.indexOf(speciality)]++;
+            }
+        }
+    }
+
+    return { builders: answered.length, roles, specialities, counts };
+}
+
+export function computeInterestsStats(
+    registrations: Registration[]
+): InterestsStats {
+    return {
+        interests: countAnswers(registrations, QUESTIONS.interests)
+    };
+}
+
+/** Normalizes free-text ZIP answers ("33130-1234", " 33130 ") to 5 digits */
+export function normalizeZip(raw: string) {
+    const match = raw.trim().match(/^(\d{5})(?:-\d{4})?$/);
+    return match ? match[1] : null;
+}
+
+export function computeZipCounts(registrations: Registration[]) {
+    const counts = new Map<string, number>();
+
+    for (const { answers } of registrations) {
+        const [raw] = answers.get(QUESTIONS.zip)?.values ?? [];
+        const zip = raw ? normalizeZip(raw) : null;
+        if (!zip) continue;
+        counts.set(zip, (counts.get(zip) ?? 0) + 1);
+    }
+
+    const zipCounts: ZipCounts = {};
+    for (const zip of [...counts.keys()].sort(compareStrings)) {
+        zipCounts[zip] = counts.get(zip)!;
+    }
+
+    return zipCounts;
+}
+
+/**
+ * `computeZipCounts` for each month on its own, for the map's time-lapse.
+ * The months add up to the year's counts; the privacy stage publishes them
+ * as running totals.
+ */
+export function computeZipTimeline(registrations: Registration[]) {
+    const byMonth = new Map<string, Registration[]>();
+    for (const registration of registrations) {
+        const month = byMonth.get(registration.month) ?? [];
+        month.push(registration);
+        byMonth.set(registration.month, month);
+    }
+
+    return [...byMonth.keys()].sort(compareStrings).map(
+        (month): MonthlyZipCounts => ({
+            month: toMonthLabel(month),
+            fullRequest: month,
+            counts: computeZipCounts(byMonth.get(month)!)
+        })
+    );
+}
@@ -0,0 +1,46 @@
+// Stopwords for the free-text answers, which come in English and Spanish.
+// Written without accents; tokens are compared with their accents folded.
+
+const ENGLISH = `
+a about above after again against all also am an and any are as at be
+because been before being below between both but by can could did do does
+doing down during each even ever few for from further get gets getting got
+had has have having he her here hers herself him himself his how i if in
+into is it its itself just let lets like made make makes making many may me
+might more most much must my myself no nor not now of off on once one only
+or other our ours ourselves out over own really same she should so some
+still such than that the their theirs them themselves then there these they
+this those through to too under until up upon us use used using very via
+want was we well were what when where which while who whom why will with
+would yet you your yours yourself yourselves im ive id ill youre dont
+didnt doesnt isnt wasnt cant wont gonna wanna
+`;
+
+const SPANISH = `
+a al algo algun alguna algunas alguno algunos ante antes aqui asi aun
+aunque bien cada casi como con contra cual cuales cuando de del desde donde
+dos el ella ellas ello ellos en entre era eran es esa esas ese eso esos esta
+estaba estaban estamos estan estar estas este esto estos estoy fue fueron
+ha habia han hasta hay hacer hago la las le les lo los mas me mi mis mucho
+muy nada ni no nos nosotros nuestra nuestro o otra otras otro otros para
+pero poco por porque que quien quiero se sea ser si sin sobre solo son su
+sus tambien tan tanto te tener tengo tiene todo todos tu tus un una unas uno
+unos usando usar voy y ya yo
+`;
+
+// Words every answer to "what are you building" shares
+const DOMAIN = `
+build building built tonight project projects thing things something stuff
+working work new idea ideas sure maybe probably know yet tbd na none
+construir construyendo proyecto proyectos cosa cosas
+`;
+
+function words(list: string) {
+    return list.split(/\s+/).filter(Boolean);
+}
+
+export const STOPWORDS = new Set([
+    ...words(ENGLISH),
+    ...words(SPANISH),
+    ...words(DOMAIN)
+]);
@@ -0,0 +1,242 @@
+import type {
+    KeywordTrends,
+    MonthlyKeywords,
+    TextStats
+} from '../../src/types/stats';
+import { toPercent } from './retention';
+import { compareStrings } from './sort';
+import { QUESTIONS, toMonthLabel, type Registration } from './stats';
+import { STOPWORDS } from './stopwords';
+import { TOPICS } from './topics';
+
+/** Longest phrase extracted, in words */
+const MAX_NGRAM = 3;
+
+/** Fewest builders a keyword needs before it is published */
+export const MIN_KEYWORD_COUNT = 3;
+
+/** Keywords kept for the cloud */
+const MAX_KEYWORDS = 60;
+
+/** Keywords followed month by month in the trend chart */
+const MAX_TREND_KEYWORDS = 8;
+
+/** The free-text questions mined for what people build */
+export const TEXT_QUESTIONS = [
+    QUESTIONS.buildingTonight,
+    QUESTIONS.lastProject
+];
+
+// Words, numbers and tech names such as "c++", "next.js" or "web3"
+const TOKEN_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}+#]*(?:[.'’-][\p{L}\p{N}+#]+)*/gu;
+
+function foldAccents(word: string) {
+    return word.normalize('NFD').replace(/\p{M}/gu, '');
+}
+
+function isStopword(token: string) {
+    if (token.length < 2 || /^\d+$/.test(token)) return true;
+    return STOPWORDS.has(foldAccents(token).replace(/['’]/g, ''));
+}
+
+/**
+ * Splits an answer into runs of meaningful words. Stopwords end a run, so
+ * phrases never bridge them: "agents that write code" gives "agents" and
+ * "write code".
+ */
+export function tokenize(text: string) {
+    const runs: string[][] = [];
+    let run: string[] = [];
+
+    for (const [token] of text
+        .normalize('NFC')
+        .toLowerCase()
+        .matchAll(TOKEN_PATTERN)) {
+        if (isStopword(token)) {
+            if (run.length > 0) runs.push(run);
+            run = [];
+        } else {
+            run.push(token);
+        }
+    }
+    if (run.length > 0) runs.push(run);
+
+    return runs;
+}
+
+/** Every distinct word and phrase of up to `MAX_NGRAM` words in `text` */
+export function extractTerms(text: string) {
+    const terms = new Set<string>();
+
+    for (const run of tokenize(text)) {
+        for (let n = 1; n <= MAX_NGRAM; n++) {
+            for (let i = 0; i + n <= run.length; i++) {
+                terms.add(run.slice(i, i + n).join(' '));
+            }
+        }
+    }
+
+    return terms;
+}
+
+/** The terms each builder used across every free-text answer they gave */
+export function buildTermsByGuest(
+    registrations: Registration[],
+    questions = TEXT_QUESTIONS
+) {
+    const termsByGuest = new Map<string, Set<string>>();
+
+    for (const { guestKey, answers } of registrations) {
+        for (const question of questions) {
+            for (const value of answers.get(question)?.values ?? []) {
+                let terms = termsByGuest.get(guestKey);
+                if (!terms) {
+                    terms = new Set();
+                    termsByGuest.set(guestKey, terms);
+                }
+                for (const term of extractTerms(value)) terms.add(term);
+            }
+        }
+    }
+
+    return termsByGuest;
+}
+
+/** Builders per term, i.e. document frequency with builders as documents */
+export function countTerms(termSets: Iterable<Set<string>>) {
+    const counts = new Map<string, number>();
+    for (const terms of termSets) {
+        for (const term of terms) {
+            counts.set(term, (counts.get(term) ?? 0) + 1);
+        }
+    }
+    return counts;
+}
+
+/**
+ * Drops terms that only ever appear inside a longer phrase with the same
+ * count, so "smart contracts" does not also list "smart" and "contracts".
+ * Phrases longer than `MAX_NGRAM` show up as overlapping windows ("react
+ * native fitness", "native fitness app"); only the first window is kept.
+ */
+export function dropSubsumedTerms(counts: Map<string, number>) {
+    const subsumed = new Set<string>();
+    // `${words}:${every word but the first}` -> counts of such terms
+    const tails = new Map<string, Set<number>>();
+
+    for (const [term, count] of counts) {
+        const words = term.split(' ');
+        for (let n = 1; n < words.length; n++) {
+            for (let i = 0; i + n <= words.length; i++) {
+                const part = words.slice(i, i + n).join(' ');
+                if (counts.get(part) === count) subsumed.add(part);
+            }
+        }
+
+        if (words.length > 1) {
+            const key = `${words.length}:${words.slice(1).join(' ')}`;
+            tails.set(key, (tails.get(key) ?? new Set()).add(count));
+        }
+    }
+
+    for (const [term, count] of counts) {
+        const words = term.split(' ');
+        const head = `${words.length}:${words.slice(0, -1).join(' ')}`;
+        if (words.length > 1 && tails.get(head)?.has(count)) {
+            subsumed.add(term);
+        }
+    }
+
+    return [...counts].filter(([term]) => !subsumed.has(term));
+}
+
+export function computeTextStats(
+    registrations: Registration[],
+    minCount = MIN_KEYWORD_COUNT
+): TextStats {
+    const termsByGuest = buildTermsByGuest(registrations);
+    const respondents = termsByGuest.size;
+    const counts = countTerms(termsByGuest.values());
+
+    const keywords = dropSubsumedTerms(counts)
+        .filter(([, count]) => count >= minCount)
+        .sort((a, b) => b[1] - a[1] || compareStrings(a[0], b[0]))
+        .slice(0, MAX_KEYWORDS)
+        .map(([name, value]) => ({
+            name,
+            value,
+            words: name.split(' ').length
+        }));
+
+    const topics = TOPICS.map(({ name, keywords }) => {
+        let value = 0;
+        for (const terms of termsByGuest.values()) {
+            if (keywords.some(k => terms.has(k))) value++;
+        }
+        return { name, value, percent: toPercent(value, respondents) };
+    })
+        .filter(t => t.value >= minCount)
+        .sort((a, b) => b.value - a.value || compareStrings(a.name, b.name));
+
+    return {
+        questions: TEXT_QUESTIONS,
+        respondents,
+        minCount,
+        topics,
+        keywords
+    };
+}
+
+/**
+ * Month-by-month use of the most common "building tonight" keywords, so
+ * the report can show topics rising and falling. Each month counts the
+ * builders who answered at a hack night that month.
+ */
+export function computeKeywordTrends(
+    registrations: Registration[],
+    minCount = MIN_KEYWORD_COUNT
+): KeywordTrends {
+    const question = QUESTIONS.buildingTonight;
+
+    const termsByMonth = new Map<string, Map<string, Set<string>>>();
+    for (const { month, guestKey, answers } of registrations) {
+        for (const value of answers.get(question)?.values ?? []) {
+            let byGuest = termsByMonth.get(month);
+            if (!byGuest) {
+                byGuest = new Map();
+                termsByMonth.set(month, byGuest);
+            }
+            let terms = byGuest.get(guestKey);
+            if (!terms) {
+                terms = new Set();
+                byGuest.set(guestKey, terms);
+            }
+            for (const term of extractTerms(value)) terms.add(term);
+        }
+    }
+
+    // Rank over the whole year, one vote per builder
+    const termsByGuest = buildTermsByGuest(registrations, [question]);
+    const keywords = dropSubsumedTerms(countTerms(termsByGuest.values()))
+        .filter(([, count]) => count >= minCount)
+        .sort((a, b) => b[1] - a[1] || compareStrings(a[0], b[0]))
+        .slice(0, MAX_TREND_KEYWORDS)
+        .map(([term]) => term);
+
+    const monthly = [...termsByMonth.keys()]
+        .sort(compareStrings)
+        .map((month): MonthlyKeywords => {
+            const byGuest = termsByMonth.get(month)!;
+            const counts = countTerms(byGuest.values());
+            return {
+                month: toMonthLabel(month),
+                fullRequest: month,
+                respondents: byGuest.size,
+                counts: Object.fromEntries(
+                    keywords.map(k => [k, counts.get(k) ?? 0])
+                )
+            };
+        });
+
+    return { question, keywords, monthly };
+}
@@ -0,0 +1,129 @@
+/**
+ * Topics the free-text answers are bucketed into. An answer belongs to a
+ * topic when any of its words or phrases (see `text.ts`) is listed here.
+ * Keywords are lowercase and may span up to three words.
+ */
+export const TOPICS: { name: string; keywords: string[] }[] = [
+    {
+        name: 'AI & Agents',
+        keywords: [
+            'ai',
+            'ia',
+            'agent',
+            'agents',
+            'agente',
+            'agentes',
+            'llm',
+            'llms',
+            'gpt',
+            'chatgpt',
+            'claude',
+            'openai',
+            'rag',
+            'ml',
+            'machine learning',
+            'inteligencia artificial',
+            'artificial intelligence',
+            'computer vision',
+            'chatbot',
+            'bot',
+            'mcp'
+        ]
+    },
+    {
+        name: 'Web3 & Crypto',
+        keywords: [
+            'web3',
+            'crypto',
+            'blockchain',
+            'nft',
+            'nfts',
+            'solana',
+            'ethereum',
+            'bitcoin',
+            'defi',
+            'wallet',
+            'smart contract',
+            'smart contracts'
+        ]
+    },
+    {
+        name: 'Hardware & Robotics',
+        keywords: [
+            'hardware',
+            'firmware',
+            'arduino',
+            'raspberry pi',
+            'esp32',
+            'robot',
+            'robots',
+            'robotics',
+            'drone',
+            'drones',
+            'pcb',
+            'iot',
+            'sensor',
+            'sensors',
+            '3d printing'
+        ]
+    },
+    {
+        name: 'Mobile',
+        keywords: [
+            'mobile',
+            'ios',
+            'android',
+            'react native',
+            'flutter',
+            'swift',
+            'app store'
+        ]
+    },
+    {
+        name: 'Web',
+        keywords: [
+            'website',
+            'web app',
+            'react',
+            'next.js',
+            'nextjs',
+            'frontend',
+            'landing page',
+            'chrome extension'
+        ]
+    },
+    {
+        name: 'Data',
+        keywords: [
+            'data',
+            'analytics',
+            'dashboard',
+            'database',
+            'pipeline',
+            'scraper',
+            'visualization'
+        ]
+    },
+    {
+        name: 'Games & Creative',
+        keywords: [
+            'game',
+            'games',
+            'unity',
+            'music',
+            'synth',
+            'art',
+            'generative art',
+            'vr',
+            'ar'
+        ]
+    },
+    {
+        name: 'Health & Fitness',
+        keywords: ['health', 'fitness', 'medical', 'healthcare', 'workout']
+    },
+    {
+        name: 'Fintech',
+        keywords: ['fintech', 'payments', 'finance', 'trading', 'banking']
+    }
+];
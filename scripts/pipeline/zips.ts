@@ -0,0 +1,105 @@
+import zctaCentroids from 'us-zips';
+import { find as findZip } from 'zipcodes-us';
+
+import type {
+    NamedValue,
+    ZipCounts,
+    ZipLocations
+} from '../../src/types/stats';
+import { byValueDesc, compareStrings } from './sort';
+import { normalizeZip, QUESTIONS, type Registration } from './stats';
+
+// Two bundled tables, so resolving never hits the network:
+// - `us-zips`: Census Bureau ZCTA centroids, the best point for a ZIP that
+//   covers an area
+// - `zipcodes-us`: GeoNames postal codes, for the city, county and state,
+//   and the location of PO box and single-building ZIPs that have no ZCTA
+
+/** 3-digit ZIP prefixes of Miami-Dade, Broward and Palm Beach */
+export const SOUTH_FLORIDA_ZIP_PREFIXES = ['330', '331', '332', '333', '334'];
+
+/** Decimal places kept for coordinates; ~10 m, far finer than a ZIP */
+const COORDINATE_PRECISION = 4;
+
+function round(value: number) {
+    const factor = 10 ** COORDINATE_PRECISION;
+    return Math.round(value * factor) / factor;
+}
+
+export interface ZipResolution {
+    locations: ZipLocations;
+    /** Well-formed ZIPs that match no real ZIP code, with their guests */
+    unresolved: NamedValue[];
+}
+
+/** Looks up every ZIP in `zipCounts` in the offline gazetteer */
+export function resolveZipLocations(zipCounts: ZipCounts): ZipResolution {
+    const locations: ZipLocations = {};
+    const unresolved: NamedValue[] = [];
+
+    for (const zip of Object.keys(zipCounts).sort(compareStrings)) {
+        const place = findZip(zip);
+        if (!place.isValid) {
+            unresolved.push({ name: zip, value: zipCounts[zip] });
+            continue;
+        }
+
+        const centroid = zctaCentroids[zip];
+        locations[zip] = {
+            lat: round(centroid?.latitude ?? place.latitude),
+            lon: round(centroid?.longitude ?? place.longitude),
+            city: place.city,
+            county: place.county,
+            state: place.stateCode
+        };
+    }
+
+    return { locations, unresolved: unresolved.sort(byValueDesc) };
+}
+
+/**
+ * Every ZIP Code Tabulation Area the gazetteer can place with one of
+ * `prefixes`, sorted. A public list, so noise can cover every ZIP rather
+ * than only those in the data.
+ */
+export function listPlaceableZips(prefixes: string[]) {
+    return Object.keys(zctaCentroids)
+        .filter(
+            zip => prefixes.includes(zip.slice(0, 3)) && findZip(zip).isValid
+        )
+        .sort(compareStrings);
+}
+
+/** ZIP answers that are not five digits (optionally ZIP+4), with counts */
+export function findMalformedZips(registrations: Registration[]) {
+    const counts = new Map<string, number>();
+
+    for (const { answers } of registrations) {
+        const [raw] = answers.get(QUESTIONS.zip)?.values ?? [];
+        if (!raw || normalizeZip(raw)) continue;
+        counts.set(raw, (counts.get(raw) ?? 0) + 1);
+    }
+
+    return [...counts]
+        .map(([name, value]): NamedValue => ({ name, value }))
+        .sort(byValueDesc);
+}
+
+export function formatZipReport(
+    unresolved: NamedValue[],
+    malformed: NamedValue[]
+) {
+    const list = (values: NamedValue[]) =>
+        values.map(({ name, value }) => `"${name}" (${value})`).join(', ');
+
+    const lines: string[] = [];
+    if (unresolved.length > 0) {
+        lines.push(
+            `ZIP codes not in the gazetteer, left out of every file: ${list(unresolved)}`
+        );
+    }
+    if (malformed.length > 0) {
+        lines.push(`malformed ZIP code answers: ${list(malformed)}`);
+    }
+    return lines;
+}
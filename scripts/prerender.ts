@@ -0,0 +1,72 @@
+/**
+ * Prerenders every route of the built site to static HTML, so crawlers,
+ * link unfurlers and readers without JavaScript get the full report.
+ *
+ * Usage (run by `pnpm build`, after both Vite builds):
+ *   tsx scripts/prerender.ts
+ *
+ * Reads the client build from `dist/` and the server build of
+ * `src/entry-server.tsx` from `dist-ssr/`, then writes
+ * `dist/<route>/index.html` for each route. `dist/404.html` keeps the empty
+ * shell, so hosts that serve it for unknown paths still boot the app.
+ */
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+interface ServerEntry {
+    prerenderRoutes(): string[];
+    render(url: string): { html: string; title: string; description: string };
+}
+
+const CLIENT_DIR = path.resolve('dist');
+const SERVER_DIR = path.resolve('dist-ssr');
+const ROOT_ELEMENT = '<div id="root"></div>';
+
+async function main() {
+    const template = await readFile(
+        path.join(CLIENT_DIR, 'index.html'),
+        'utf8'
+    );
+    if (!template.includes(ROOT_ELEMENT)) {
+        throw new Error(`dist/index.html has no empty ${ROOT_ELEMENT}`);
+    }
+
+    // Render with the same production React the browser bundle ships
+    process.env.NODE_ENV ??= 'production';
+    const { prerenderRoutes, render }: ServerEntry = await import(
+        pathToFileURL(path.join(SERVER_DIR, 'entry-server.js')).href
+    );
+
+    // index.html is built with the latest edition's title and description;
+    // archived editions swap in their own
+    const routes = prerenderRoutes();
+    const latest = render('/');
+    if (!template.includes(latest.title)) {
+        throw new Error(`dist/index.html is not titled "${latest.title}"`);
+    }
+
+    await writeFile(path.join(CLIENT_DIR, '404.html'), template);
+
+    for (const route of routes) {
+        const { html, title, description } =
+            route === '/' ? latest : render(route);
+
+        const page = template
+            .replace(ROOT_ELEMENT, `<div id="root">${html}</div>`)
+            .replaceAll(latest.title, title)
+            .replaceAll(latest.description, description);
+
+        const file = path.join(CLIENT_DIR, route, 'index.html');
+        await mkdir(path.dirname(file), { recursive: true });
+        await writeFile(file, page);
+        console.log(`prerendered ${path.relative(process.cwd(), file)}`);
+    }
+
+    await rm(SERVER_DIR, { recursive: true, force: true });
+}
+
+main().catch((err: unknown) => {
+    console.error(`error: ${err instanceof Error ? err.message : err}`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,109 @@
+import {
+    Bar,
+    CartesianGrid,
+    ComposedChart,
+    Legend,
+    Line,
+    ResponsiveContainer,
+    Tooltip,
+    XAxis,
+    YAxis
+} from 'recharts';
+
+import type { MonthlyRetention } from '../../types/stats';
+
+interface AttendeeMixChartProps {
+    data: MonthlyRetention[];
+}
+
+/**
+ * Monthly first-timers vs returning builders as stacked bars, with the
+ * month-over-month retention rate as a line on a secondary axis.
+ */
+export function AttendeeMixChart({ data }: AttendeeMixChartProps) {
+    return (
+        <div className="w-full h-75 md:h-100">
+            <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart
+                    data={data}
+                    margin={{
+                        top: 20,
+                        right: 0,
+                        left: 20,
+                        bottom: 5
+                    }}
+                >
+                    <CartesianGrid
+                        strokeDasharray="3 3"
+                        opacity={0.2}
+                        vertical={false}
+                    />
+                    <XAxis
+                        dataKey="month"
+                        tick={{ fill: '#888888', fontSize: 12 }}
+                        tickLine={false}
+                        axisLine={false}
+                    />
+                    <YAxis
+                        yAxisId="builders"
+                        tick={{ fill: '#888888', fontSize: 12 }}
+                        tickLine={false}
+                        axisLine={false}
+                    />
+                    <YAxis
+                        yAxisId="retained"
+                        orientation="right"
+                        domain={[0, 100]}
+                        tick={{ fill: '#888888', fontSize: 12 }}
+                        tickLine={false}
+                        axisLine={false}
+                        tickFormatter={value => `${value}%`}
+                    />
+                    <Tooltip
+                        cursor={{ fill: 'rgba(255, 255, 255, 0.1)' }}
+                        contentStyle={{
+                            backgroundColor: '#09090b', // zinc-950
+                            border: '2px solid #00d492', // Green Border
+                            borderRadius: '0px',
+                            color: '#ffffff',
+                            fontFamily: 'monospace'
+                        }}
+                        formatter={(value, name) =>
+                            name === 'Retained' ? `${value}%` : value
+                        }
+                    />
+                    <Legend
+                        wrapperStyle={{
+                            fontFamily: 'monospace',
+                            fontSize: 12
+                        }}
+                    />
+                    <Bar
+                        yAxisId="builders"
+                        dataKey="returning"
+                        stackId="builders"
+                        fill="#00d492" // green-500
+                        name="Returning"
+                    />
+                    <Bar
+                        yAxisId="builders"
+                        dataKey="firstTimers"
+                        stackId="builders"
+                        fill="#166534" // green-800
+                        name="First-timers"
+                    />
+                    <Line
+                        yAxisId="retained"
+                        dataKey="retained"
+                        type="monotone"
+                        stroke="#ffffff"
+                        strokeWidth={2}
+                        dot={{ r: 3, fill: '#ffffff' }}
+                        connectNulls
+                        name="Retained"
+                    />
+                </ComposedChart>
+            </ResponsiveContainer>
+        </div>
+    );
+}
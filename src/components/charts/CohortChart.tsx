@@ -0,0 +1,123 @@
+import { useMemo } from 'react';
+
+import { privacyConfig } from '../../config/privacy';
+import type { CohortRow } from '../../types/stats';
+import { cn } from '../../utils/cn';
+import { Tooltip, TooltipContent, TooltipTrigger } from '../ui/tooltip';
+
+interface CohortChartProps {
+    /** Rows keyed by `fullRequest` (`YYYY-MM`), as in `growth-stats.json` */
+    data: CohortRow[];
+    /** Only show cohorts whose first month starts with this prefix */
+    period?: string;
+    className?: string;
+}
+
+/** Green accent (#00d492) at an opacity proportional to the percentage */
+function cellColor(percent: number) {
+    return `rgba(0, 212, 146, ${Math.max(percent / 100, 0.04)})`;
+}
+
+/**
+ * Cohort retention matrix. Rows are the month of each builder's first hack
+ * night, columns are months since then, and each cell is shaded by the share
+ * of the cohort still attending.
+ */
+export function CohortChart({ data, period, className }: CohortChartProps) {
+    const rows = useMemo(
+        () =>
+            period ? data.filter(d => d.fullRequest.startsWith(period)) : data,
+        [data, period]
+    );
+
+    const columns = Math.max(0, ...rows.map(r => r.retention.length));
+
+    return (
+        <div className={cn('w-full overflow-x-auto bg-zinc-950', className)}>
+            <div
+                className="grid gap-1 min-w-max font-mono text-xs"
+                style={{
+                    gridTemplateColumns: `4rem 3.5rem repeat(${columns}, minmax(2.5rem, 1fr))`
+                }}
+            >
+                <div className="text-zinc-500 uppercase">Cohort</div>
+                <div className="text-zinc-500 uppercase text-right pr-2">
+                    Size
+                </div>
+                {Array.from({ length: columns }, (_, offset) => (
+                    <div key={offset} className="text-zinc-500 text-center">
+                        +{offset}
+                    </div>
+                ))}
+
+                {rows.map(row => (
+                    <CohortRowCells
+                        key={row.fullRequest}
+                        row={row}
+                        columns={columns}
+                    />
+                ))}
+            </div>
+            <div className="mt-4 text-xs font-mono text-zinc-500">
+                Months since first hack night →
+            </div>
+        </div>
+    );
+}
+
+function CohortRowCells({ row, columns }: { row: CohortRow; columns: number }) {
+    return (
+        <>
+            <div className="flex items-center font-bold uppercase text-white">
+                {row.month}
+            </div>
+            <div className="flex items-center justify-end pr-2 text-zinc-400">
+                {row.size}
+            </div>
+            {Array.from({ length: columns }, (_, offset) => {
+                const cell = row.retention[offset];
+                if (!cell) return <div key={offset} />;
+
+                if (cell.count === null || cell.percent === null) {
+                    return (
+                        <Tooltip key={offset}>
+                            <TooltipTrigger asChild>
+                                <div className="h-9 flex items-center justify-center border border-zinc-900 cursor-default text-zinc-600">
+                                    &lt;{privacyConfig.minCellSize}
+                                </div>
+                            </TooltipTrigger>
+                            <TooltipContent className="bg-zinc-950 text-white border-2 border-[#00d492] rounded-none font-mono">
+                                {row.month} cohort, +{cell.offset} mo: fewer
+                                than {privacyConfig.minCellSize} of {row.size}
+                            </TooltipContent>
+                        </Tooltip>
+                    );
+                }
+
+                return (
+                    <Tooltip key={offset}>
+                        <TooltipTrigger asChild>
+                            <div
+                                className={cn(
+                                    'h-9 flex items-center justify-center border border-zinc-900 cursor-default',
+                                    cell.percent >= 50
+                                        ? 'text-black font-bold'
+                                        : 'text-white'
+                                )}
+                                style={{
+                                    backgroundColor: cellColor(cell.percent)
+                                }}
+                            >
+                                {Math.round(cell.percent)}%
+                            </div>
+                        </TooltipTrigger>
+                        <TooltipContent className="bg-zinc-950 text-white border-2 border-[#00d492] rounded-none font-mono">
+                            {row.month} cohort, +{cell.offset} mo: {cell.count}{' '}
+                            of {row.size} ({cell.percent}%)
+                        </TooltipContent>
+                    </Tooltip>
+                );
+            })}
+        </>
+    );
+}
@@ -0,0 +1,122 @@
+import { privacyConfig } from '../../config/privacy';
+import type { NamedValue } from '../../types/stats';
+import { cn } from '../../utils/cn';
+import { Tooltip, TooltipContent, TooltipTrigger } from '../ui/tooltip';
+
+interface CrossTabChartProps {
+    /** Row labels with the row total each cell is a share of */
+    rows: NamedValue[];
+    columns: string[];
+    /** `counts[row][column]`, null where too few to publish */
+    counts: (number | null)[][];
+    /** Describes a cell in the tooltip, e.g. "founders list firmware" */
+    describe: (row: string, column: string) => string;
+    className?: string;
+}
+
+/** Green accent (#00d492) at an opacity proportional to the percentage */
+function cellColor(percent: number) {
+    return `rgba(0, 212, 146, ${Math.max(percent / 100, 0.04)})`;
+}
+
+/**
+ * Cross-tabulation heatmap. Each cell shows how many members of its row also
+ * belong to its column, shaded by the share of the row.
+ */
+export function CrossTabChart({
+    rows,
+    columns,
+    counts,
+    describe,
+    className
+}: CrossTabChartProps) {
+    return (
+        <div className={cn('w-full overflow-x-auto bg-zinc-950', className)}>
+            <div
+                className="grid gap-1 min-w-max font-mono text-xs"
+                style={{
+                    gridTemplateColumns: `9rem repeat(${columns.length}, minmax(4rem, 1fr))`
+                }}
+            >
+                <div />
+                {columns.map(column => (
+                    <div
+                        key={column}
+                        className="flex items-end justify-center pb-1 text-zinc-500 uppercase text-center"
+                    >
+                        {column}
+                    </div>
+                ))}
+
+                {rows.map((row, rowIdx) => (
+                    <CrossTabRow
+                        key={row.name}
+                        row={row}
+                        columns={columns}
+                        counts={counts[rowIdx]}
+                        describe={describe}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+}
+
+interface CrossTabRowProps {
+    row: NamedValue;
+    columns: string[];
+    counts: (number | null)[];
+    describe: (row: string, column: string) => string;
+}
+
+function CrossTabRow({ row, columns, counts, describe }: CrossTabRowProps) {
+    return (
+        <>
+            <div className="flex items-center font-bold uppercase text-white">
+                {row.name}
+            </div>
+            {columns.map((column, idx) => {
+                const count = counts[idx];
+                if (count === null) {
+                    return (
+                        <Tooltip key={column}>
+                            <TooltipTrigger asChild>
+                                <div className="h-9 flex items-center justify-center border border-zinc-900 cursor-default text-zinc-600">
+                                    &lt;{privacyConfig.minCellSize}
+                                </div>
+                            </TooltipTrigger>
+                            <TooltipContent className="bg-zinc-950 text-white border-2 border-[#00d492] rounded-none font-mono">
+                                Fewer than {privacyConfig.minCellSize} of{' '}
+                                {row.value} {describe(row.name, column)}
+                            </TooltipContent>
+                        </Tooltip>
+                    );
+                }
+
+                const percent = row.value ? (count / row.value) * 100 : 0;
+
+                return (
+                    <Tooltip key={column}>
+                        <TooltipTrigger asChild>
+                            <div
+                                className={cn(
+                                    'h-9 flex items-center justify-center border border-zinc-900 cursor-default',
+                                    percent >= 50
+                                        ? 'text-black font-bold'
+                                        : 'text-white'
+                                )}
+                                style={{ backgroundColor: cellColor(percent) }}
+                            >
+                                {count}
+                            </div>
+                        </TooltipTrigger>
+                        <TooltipContent className="bg-zinc-950 text-white border-2 border-[#00d492] rounded-none font-mono">
+                            {count} of {row.value} {describe(row.name, column)}{' '}
+                            ({Math.round(percent)}%)
+                        </TooltipContent>
+                    </Tooltip>
+                );
+            })}
+        </>
+    );
+}
@@ -0,0 +1,66 @@
+import {
+    Bar,
+    BarChart,
+    CartesianGrid,
+    ResponsiveContainer,
+    Tooltip,
+    XAxis,
+    YAxis
+} from 'recharts';
+
+import type { NamedValue } from '../../types/stats';
+
+interface DistanceChartProps {
+    /** Builders per distance band, e.g. `{ name: '5-10', value: 12 }` */
+    data: NamedValue[];
+}
+
+/** Histogram of how far builders travel to hack night, in miles */
+export function DistanceChart({ data }: DistanceChartProps) {
+    return (
+        <div className="w-full h-75">
+            <ResponsiveContainer width="100%" height="100%">
+                <BarChart
+                    data={data}
+                    margin={{
+                        top: 20,
+                        right: 0,
+                        left: 0,
+                        bottom: 5
+                    }}
+                >
+                    <CartesianGrid
+                        strokeDasharray="3 3"
+                        opacity={0.2}
+                        vertical={false}
+                    />
+                    <XAxis
+                        dataKey="name"
+                        tick={{ fill: '#888888', fontSize: 12 }}
+                        tickLine={false}
+                        axisLine={false}
+                        tickFormatter={name => `${name} mi`}
+                    />
+                    <YAxis
+                        tick={{ fill: '#888888', fontSize: 12 }}
+                        tickLine={false}
+                        axisLine={false}
+                        allowDecimals={false}
+                    />
+                    <Tooltip
+                        cursor={{ fill: 'rgba(255, 255, 255, 0.1)' }}
+                        contentStyle={{
+                            backgroundColor: '#09090b', // zinc-950
+                            border: '2px solid #00d492',
+                            borderRadius: '0px',
+                            color: '#ffffff',
+                            fontFamily: 'monospace'
+                        }}
+                        labelFormatter={name => `${name} miles`}
+                    />
+                    <Bar dataKey="value" name="Builders" fill="#00d492" />
+                </BarChart>
+            </ResponsiveContainer>
+        </div>
+    );
+}
@@ -1,7 +1,10 @@
 import { useMemo } from 'react';
 import {
-    BarChart,
+    ComposedChart,
     Bar,
+    Cell,
+    Line,
+    Legend,
     XAxis,
     YAxis,
     Tooltip,
@@ -9,18 +12,58 @@ import {
     CartesianGrid
 } from 'recharts';
 
-import growthData from '../../data/precomputed/growth-stats.json';
+import { useCompareReport } from '../../hooks/use-compare-report';
+import { useReport } from '../../hooks/use-report';
+import { useTimelineMonth } from '../../hooks/use-timeline-month';
+import type { GrowthStat } from '../../types/stats';
+
+interface GrowthChartRow {
+    month: string;
+    /** `YYYY-MM` of the edition being viewed, when it has that month */
+    fullRequest?: string;
+    /** Null when the month had too few RSVPs to publish */
+    count?: number | null;
+    /** Same calendar month in the comparison edition */
+    previous?: number | null;
+}
+
+function monthsOf(growthStats: GrowthStat[], year: number) {
+    return growthStats.filter(d => d.fullRequest.startsWith(`${year}-`));
+}
 
 export function GrowthChart() {
+    const { year, growthStats } = useReport();
+    const { compareReport } = useCompareReport();
+    // Follows the geography time-lapse: later months are dimmed, and
+    // clicking a bar moves the time-lapse there
+    const { months, month: timelineMonth, setMonth } = useTimelineMonth();
+
     const data = useMemo(() => {
-        // Filter for 2025 since this is a 2025 Year in Review
-        return growthData.filter(d => d.fullRequest.startsWith('2025'));
-    }, []);
+        // Only the months of the edition being viewed
+        const current = monthsOf(growthStats, year);
+        if (!compareReport) return current;
+
+        // Line both editions up on calendar month, keeping months that only
+        // one of them has
+        const byMonth = new Map<string, GrowthChartRow>();
+        for (const { month, fullRequest, count } of current) {
+            byMonth.set(fullRequest.slice(5), { month, fullRequest, count });
+        }
+        for (const { month, fullRequest, count } of monthsOf(
+            compareReport.growthStats,
+            compareReport.year
+        )) {
+            const key = fullRequest.slice(5);
+            byMonth.set(key, { month, ...byMonth.get(key), previous: count });
+        }
+
+        return [...byMonth.keys()].sort().map(key => byMonth.get(key)!);
+    }, [year, growthStats, compareReport]);
 
     return (
         <div className="w-full h-75 md:h-100">
             <ResponsiveContainer width="100%" height="100%">
-                <BarChart
+                <ComposedChart
                     data={data}
                     margin={{
                         top: 20,
@@ -60,9 +103,51 @@ export function GrowthChart() {
                         dataKey="count"
                         fill="#00d492" // green-500
                         radius={[0, 0, 0, 0]}
-                        name="Attendees"
-                    />
-                </BarChart>
+                        name={compareReport ? `${year}` : 'Attendees'}
+                        cursor={months.length > 0 ? 'pointer' : undefined}
+                        onClick={({ payload }: { payload: GrowthChartRow }) => {
+                            if (
+                                payload.fullRequest &&
+                                months.includes(payload.fullRequest)
+                            ) {
+                                setMonth(payload.fullRequest);
+                            }
+                        }}
+                    >
+                        {data.map(row => (
+                            <Cell
+                                key={row.month}
+                                fillOpacity={
+                                    timelineMonth !== null &&
+                                    (!row.fullRequest ||
+                                        row.fullRequest > timelineMonth)
+                                        ? 0.25
+                                        : 1
+                                }
+                            />
+                        ))}
+                    </Bar>
+                    {compareReport && (
+                        <Line
+                            dataKey="previous"
+                            type="monotone"
+                            stroke="#ffffff"
+                            strokeWidth={2}
+                            strokeDasharray="6 4"
+                            dot={{ r: 3, fill: '#ffffff' }}
+                            connectNulls
+                            name={`${compareReport.year}`}
+                        />
+                    )}
+                    {compareReport && (
+                        <Legend
+                            wrapperStyle={{
+                                fontFamily: 'monospace',
+                                fontSize: 12
+                            }}
+                        />
+                    )}
+                </ComposedChart>
             </ResponsiveContainer>
         </div>
     );
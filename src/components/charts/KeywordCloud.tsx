@@ -0,0 +1,59 @@
+import type { Keyword } from '../../types/stats';
+import { cn } from '../../utils/cn';
+
+interface KeywordCloudProps {
+    keywords: Keyword[];
+    className?: string;
+}
+
+const MIN_FONT_REM = 0.875;
+const MAX_FONT_REM = 2.75;
+
+const COLORS = ['text-[#00d492]', 'text-white', 'text-zinc-400'];
+
+/**
+ * Keywords sized by how many builders used them. Sizes scale with the
+ * square root of the count so a few runaway terms do not dwarf the rest.
+ */
+export function KeywordCloud({ keywords, className }: KeywordCloudProps) {
+    const max = Math.sqrt(Math.max(1, ...keywords.map(k => k.value)));
+    const min = Math.sqrt(Math.min(max ** 2, ...keywords.map(k => k.value)));
+
+    // Alphabetical, so neighbouring words do not all share a size. Plain
+    // code point order, so the prerendered and hydrated markup always agree
+    const sorted = [...keywords].sort((a, b) =>
+        a.name < b.name ? -1 : a.name > b.name ? 1 : 0
+    );
+
+    return (
+        <ul
+            className={cn(
+                'flex flex-wrap items-baseline justify-center gap-x-5 gap-y-2 font-heading',
+                className
+            )}
+        >
+            {sorted.map(keyword => {
+                const weight =
+                    max === min
+                        ? 1
+                        : (Math.sqrt(keyword.value) - min) / (max - min);
+
+                return (
+                    <li
+                        key={keyword.name}
+                        title={`${keyword.value} builders`}
+                        className={cn(
+                            'font-bold tracking-tight leading-tight',
+                            COLORS[weight > 0.66 ? 0 : weight > 0.33 ? 1 : 2]
+                        )}
+                        style={{
+                            fontSize: `${MIN_FONT_REM + weight * (MAX_FONT_REM - MIN_FONT_REM)}rem`
+                        }}
+                    >
+                        {keyword.name}
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
@@ -0,0 +1,164 @@
+import { useMemo, useState } from 'react';
+import {
+    CartesianGrid,
+    Line,
+    LineChart,
+    ResponsiveContainer,
+    Tooltip,
+    XAxis,
+    YAxis
+} from 'recharts';
+
+import { useReport } from '../../hooks/use-report';
+import type { KeywordTrends } from '../../types/stats';
+import { cn } from '../../utils/cn';
+
+interface KeywordTrendChartProps {
+    data: KeywordTrends;
+}
+
+const COLORS = [
+    '#00d492',
+    '#22d3ee',
+    '#e879f9',
+    '#facc15',
+    '#ffffff',
+    '#fb923c',
+    '#818cf8',
+    '#f87171'
+];
+
+/** Keywords shown before the reader toggles any */
+const INITIALLY_VISIBLE = 4;
+
+/**
+ * Share of each month's builders using a keyword, one line per keyword.
+ * Uses the same months as `GrowthChart`, so the two read side by side.
+ */
+export function KeywordTrendChart({ data }: KeywordTrendChartProps) {
+    const { year, growthStats } = useReport();
+    const [visible, setVisible] = useState(
+        () => new Set(data.keywords.slice(0, INITIALLY_VISIBLE))
+    );
+
+    const rows = useMemo(() => {
+        const byMonth = new Map(data.monthly.map(m => [m.fullRequest, m]));
+
+        return growthStats
+            .filter(d => d.fullRequest.startsWith(`${year}-`))
+            .map(({ month, fullRequest }) => {
+                const row: Record<string, string | number | null> = { month };
+                const counts = byMonth.get(fullRequest);
+                for (const keyword of data.keywords) {
+                    // No answers that month, or too few to publish, is a
+                    // gap rather than a zero
+                    const count = counts?.counts[keyword] ?? null;
+                    row[keyword] =
+                        counts?.respondents && count !== null
+                            ? Math.round((count / counts.respondents) * 1000) /
+                              10
+                            : null;
+                }
+                return row;
+            });
+    }, [data, year, growthStats]);
+
+    const toggle = (keyword: string) => {
+        setVisible(current => {
+            const next = new Set(current);
+            if (next.has(keyword)) next.delete(keyword);
+            else next.add(keyword);
+            return next;
+        });
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap gap-2 font-mono text-xs font-bold uppercase">
+                {data.keywords.map((keyword, idx) => (
+                    <button
+                        key={keyword}
+                        type="button"
+                        aria-pressed={visible.has(keyword)}
+                        onClick={() => toggle(keyword)}
+                        className={cn(
+                            'flex items-center gap-2 px-2 py-1 border-2 transition-all',
+                            visible.has(keyword)
+                                ? 'border-white text-white'
+                                : 'border-zinc-800 text-zinc-500 hover:border-zinc-500'
+                        )}
+                    >
+                        <span
+                            className="size-2.5"
+                            style={{
+                                backgroundColor: visible.has(keyword)
+                                    ? COLORS[idx % COLORS.length]
+                                    : 'transparent',
+                                border: `1px solid ${COLORS[idx % COLORS.length]}`
+                            }}
+                        />
+                        {keyword}
+                    </button>
+                ))}
+            </div>
+
+            <div className="w-full h-75 md:h-100">
+                <ResponsiveContainer width="100%" height="100%">
+                    <LineChart
+                        data={rows}
+                        margin={{
+                            top: 20,
+                            right: 30,
+                            left: 20,
+                            bottom: 5
+                        }}
+                    >
+                        <CartesianGrid
+                            strokeDasharray="3 3"
+                            opacity={0.2}
+                            vertical={false}
+                        />
+                        <XAxis
+                            dataKey="month"
+                            tick={{ fill: '#888888', fontSize: 12 }}
+                            tickLine={false}
+                            axisLine={false}
+                        />
+                        <YAxis
+                            tick={{ fill: '#888888', fontSize: 12 }}
+                            tickLine={false}
+                            axisLine={false}
+                            tickFormatter={value => `${value}%`}
+                        />
+                        <Tooltip
+                            cursor={{ stroke: 'rgba(255, 255, 255, 0.2)' }}
+                            contentStyle={{
+                                backgroundColor: '#09090b', // zinc-950
+                                border: '2px solid #00d492', // Green Border
+                                borderRadius: '0px',
+                                color: '#ffffff',
+                                fontFamily: 'monospace'
+                            }}
+                            formatter={value => `${value}%`}
+                        />
+                        {data.keywords.map((keyword, idx) => (
+                            <Line
+                                key={keyword}
+                                dataKey={keyword}
+                                type="monotone"
+                                stroke={COLORS[idx % COLORS.length]}
+                                strokeWidth={2}
+                                dot={{
+                                    r: 3,
+                                    fill: COLORS[idx % COLORS.length]
+                                }}
+                                hide={!visible.has(keyword)}
+                                name={keyword}
+                            />
+                        ))}
+                    </LineChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+}
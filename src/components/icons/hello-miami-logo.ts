@@ -0,0 +1,65 @@
+/**
+ * The hello_miami wordmark, drawn by the navbar and stamped on the share
+ * images. Paths with `evenOdd` need the even-odd fill rule.
+ */
+export const HELLO_MIAMI_LOGO = {
+    viewBox: '0 0 980.03 181.34',
+    width: 980.03,
+    height: 181.34,
+    fill: '#d0f6ae',
+    paths: [
+        {
+            d: 'M291.1,110.2c0-9.63,1.13-18.53,3.4-26.7,2.35-8.25,5.87-15.25,10.56-21,4.77-5.83,10.72-10.4,17.84-13.71,7.12-3.32,15.49-4.98,25.12-4.98s18,1.66,25.12,4.98c7.12,3.32,13.03,7.89,17.72,13.71,4.7,5.74,8.21,12.74,10.56,21,2.34,8.17,3.52,17.07,3.52,26.7s-1.17,18.73-3.52,26.82c-2.35,8.09-5.87,15.05-10.56,20.87-4.69,5.83-10.64,10.4-17.84,13.71-7.12,3.32-15.46,4.98-25,4.98s-18-1.66-25.12-4.98c-7.12-3.32-13.07-7.89-17.84-13.71-4.69-5.83-8.21-12.78-10.56-20.87-2.27-8.09-3.4-17.03-3.4-26.82ZM314.65,129.86c0,4.29.89,8.21,2.67,11.77,1.86,3.56,4.29,6.59,7.28,9.1,2.99,2.43,6.51,4.37,10.56,5.83,4.05,1.38,8.33,2.06,12.86,2.06s8.7-.69,12.74-2.06c4.05-1.46,7.56-3.4,10.56-5.83,2.99-2.51,5.38-5.54,7.16-9.1,1.86-3.56,2.79-7.48,2.79-11.77v-39.32c0-4.29-.93-8.21-2.79-11.77-1.78-3.56-4.17-6.59-7.16-9.1-3-2.51-6.51-4.45-10.56-5.83-4.04-1.46-8.29-2.18-12.74-2.18s-8.74.73-12.86,2.18c-4.05,1.38-7.56,3.32-10.56,5.83-2.99,2.51-5.42,5.54-7.28,9.1-1.78,3.56-2.67,7.48-2.67,11.77v39.32Z'
+        },
+        { d: 'M261.04,173.56V4.49h22.33v169.06h-22.33Z' },
+        { d: 'M223.81,173.56V4.49h22.33v169.06h-22.33Z' },
+        {
+            d: 'M107.82,110.2c0-9.63,1.17-18.53,3.52-26.7,2.43-8.25,5.99-15.25,10.68-21,4.77-5.83,10.52-10.4,17.23-13.71,6.72-3.32,14.44-4.98,23.18-4.98s17.11,1.58,23.91,4.73c6.8,3.16,12.42,7.48,16.87,12.99,4.45,5.42,7.81,11.81,10.07,19.18,2.27,7.36,3.4,15.29,3.4,23.79v11.89h-85.32v13.47c0,4.61.85,8.7,2.55,12.26,1.78,3.56,4.17,6.59,7.16,9.1,2.99,2.43,6.35,4.29,10.07,5.58,3.72,1.21,7.57,1.82,11.53,1.82,7.93,0,14.81-2.02,20.63-6.07,5.83-4.05,9.14-10.48,9.95-19.3h22.45c-.49,6.8-2.27,12.86-5.34,18.2-3.07,5.26-7.08,9.75-12.02,13.47-4.85,3.72-10.36,6.59-16.51,8.62-6.15,2.02-12.62,3.03-19.42,3.03-9.14,0-17.15-1.66-24.03-4.98-6.8-3.32-12.5-7.89-17.11-13.71-4.53-5.83-7.93-12.78-10.19-20.87-2.18-8.09-3.28-17.03-3.28-26.82ZM131.37,98.55h62.14v-7.04c0-4.61-.85-8.78-2.55-12.5-1.62-3.72-3.88-6.88-6.8-9.47-2.83-2.59-6.15-4.53-9.95-5.83-3.72-1.38-7.65-2.06-11.77-2.06s-8.05.69-11.77,2.06c-3.72,1.29-7.04,3.24-9.95,5.83-2.91,2.59-5.22,5.74-6.92,9.47-1.62,3.72-2.43,7.89-2.43,12.5v7.04Z'
+        },
+        {
+            d: 'M.08,173.56V4.49h22.33v63.23c3.48-7.44,8.25-13.27,14.32-17.48,6.07-4.29,13.92-6.43,23.55-6.43,6.15,0,11.73.85,16.75,2.55,5.02,1.62,9.35,4.25,12.99,7.89,3.64,3.64,6.47,8.33,8.5,14.08,2.02,5.66,3.03,12.58,3.03,20.75v84.47h-22.45v-82.04c0-9.3-1.78-16.59-5.34-21.85-3.56-5.34-10.15-8.01-19.78-8.01-4.61,0-8.82.93-12.62,2.79-3.8,1.78-7.12,4.37-9.95,7.77-2.83,3.4-5.06,7.44-6.68,12.14-1.54,4.61-2.31,9.67-2.31,15.17v74.03H.08Z'
+        },
+        {
+            d: 'M956.72,27.92V4.49h23.3v23.42h-23.3ZM957.21,173.56V46.85h22.33v126.71h-22.33Z'
+        },
+        {
+            d: 'M773.86,173.56V46.85h22.33v20.88c2.83-6.96,7.2-12.66,13.1-17.11,5.91-4.53,13.31-6.8,22.21-6.8,8.42,0,15.86,2.1,22.33,6.31,6.48,4.21,11.13,10.8,13.96,19.78,2.67-7.44,7.2-13.63,13.59-18.57,6.39-5.02,14.28-7.52,23.67-7.52,5.5,0,10.64.85,15.41,2.55,4.86,1.62,9.06,4.25,12.62,7.89,3.56,3.64,6.31,8.33,8.25,14.08,2.02,5.66,3.03,12.58,3.03,20.75v84.47h-22.33v-82.04c0-9.3-1.78-16.59-5.34-21.85-3.56-5.34-9.51-8.01-17.84-8.01-3.97,0-7.65.93-11.04,2.79-3.4,1.78-6.43,4.37-9.1,7.77-2.67,3.4-4.73,7.44-6.19,12.14-1.46,4.61-2.19,9.67-2.19,15.17v74.03h-22.45v-82.04c0-9.3-1.78-16.59-5.34-21.85-3.56-5.34-9.47-8.01-17.72-8.01-3.96,0-7.65.93-11.04,2.79-3.4,1.78-6.43,4.37-9.1,7.77-2.67,3.4-4.77,7.44-6.31,12.14-1.46,4.61-2.18,9.67-2.18,15.17v74.03h-22.33Z'
+        },
+        {
+            d: 'M656.29,138.72c0-9.95,3.16-18.49,9.47-25.61,6.31-7.12,15.78-11.25,28.4-12.38l41.27-3.76v-10.19c0-4.94-.65-9.02-1.94-12.26-1.22-3.24-3-5.79-5.34-7.65-2.27-1.94-5.02-3.28-8.26-4-3.23-.81-6.84-1.21-10.8-1.21-7.93,0-14.28,1.78-19.06,5.34-4.69,3.56-7.04,9.43-7.04,17.6h-22.45c0-5.99,1.29-11.45,3.88-16.38,2.59-5.02,6.07-9.35,10.44-12.99,4.37-3.64,9.51-6.43,15.41-8.37,5.9-2.02,12.26-3.03,19.05-3.03s13.11.89,18.93,2.67c5.91,1.7,11.01,4.29,15.29,7.77,4.37,3.48,7.73,7.97,10.07,13.47,2.42,5.42,3.64,11.85,3.64,19.3v67.36h18.93v19.18h-37.87l-.48-23.42h-.97c-3.48,8.98-8.62,15.66-15.41,20.03-6.8,4.29-14.93,6.43-24.4,6.43-6.31,0-12.01-.97-17.11-2.91-5.1-1.94-9.51-4.81-13.23-8.62-3.32-3.32-5.91-7.28-7.77-11.89-1.78-4.61-2.67-9.43-2.67-14.44ZM679.95,141.76c0,5.83,2.02,10.11,6.06,12.86,4.05,2.67,9.63,4.01,16.75,4.01,10.12,0,18.08-3.6,23.91-10.8,5.83-7.2,8.74-16.51,8.74-27.91v-5.7l-45.03,4.13c-4.61.32-7.52,1.54-8.74,3.64-1.13,2.1-1.7,4.98-1.7,8.62v11.17Z'
+        },
+        {
+            d: 'M627.56,27.92V4.49h23.3v23.42h-23.3ZM628.04,173.56V46.85h22.33v126.71h-22.33Z'
+        },
+        {
+            d: 'M444.69,173.56V46.85h22.33v20.88c2.83-6.96,7.2-12.66,13.11-17.11,5.91-4.53,13.31-6.8,22.21-6.8,8.41,0,15.86,2.1,22.33,6.31,6.48,4.21,11.12,10.8,13.96,19.78,2.67-7.44,7.2-13.63,13.59-18.57,6.39-5.02,14.28-7.52,23.67-7.52,5.5,0,10.64.85,15.41,2.55,4.86,1.62,9.06,4.25,12.62,7.89,3.56,3.64,6.31,8.33,8.25,14.08,2.02,5.66,3.03,12.58,3.03,20.75v84.47h-22.33v-82.04c0-9.3-1.78-16.59-5.34-21.85-3.56-5.34-9.51-8.01-17.84-8.01-3.97,0-7.65.93-11.04,2.79-3.4,1.78-6.43,4.37-9.1,7.77-2.67,3.4-4.73,7.44-6.19,12.14-1.45,4.61-2.18,9.67-2.18,15.17v74.03h-22.45v-82.04c0-9.3-1.78-16.59-5.34-21.85-3.56-5.34-9.47-8.01-17.72-8.01-3.97,0-7.65.93-11.04,2.79-3.4,1.78-6.43,4.37-9.1,7.77-2.67,3.4-4.77,7.44-6.31,12.14-1.46,4.61-2.19,9.67-2.19,15.17v74.03h-22.33Z'
+        },
+        {
+            d: 'M291.02,105.71c0-9.63,1.13-18.53,3.4-26.7,2.35-8.25,5.87-15.25,10.56-21,4.77-5.83,10.72-10.4,17.84-13.71,7.12-3.32,15.49-4.98,25.12-4.98s18,1.66,25.12,4.98c7.12,3.32,13.02,7.89,17.72,13.71,4.69,5.74,8.21,12.74,10.56,21,2.35,8.17,3.52,17.07,3.52,26.7s-1.17,18.73-3.52,26.82c-2.35,8.09-5.87,15.05-10.56,20.87-4.7,5.83-10.64,10.4-17.84,13.71-7.12,3.32-15.46,4.98-25,4.98s-18-1.66-25.12-4.98c-7.12-3.32-13.07-7.89-17.84-13.71-4.69-5.83-8.21-12.78-10.56-20.87-2.27-8.09-3.4-17.03-3.4-26.82ZM314.57,125.37c0,4.29.89,8.21,2.67,11.77,1.86,3.56,4.29,6.59,7.28,9.1,2.99,2.43,6.51,4.37,10.56,5.83,4.05,1.38,8.33,2.06,12.87,2.06s8.7-.69,12.74-2.06c4.04-1.46,7.56-3.4,10.56-5.83,2.99-2.51,5.38-5.54,7.16-9.1,1.86-3.56,2.79-7.48,2.79-11.77v-39.32c0-4.29-.93-8.21-2.79-11.77-1.78-3.56-4.17-6.59-7.16-9.1-2.99-2.51-6.51-4.45-10.56-5.83-4.05-1.46-8.29-2.18-12.74-2.18s-8.74.73-12.87,2.18c-4.05,1.38-7.57,3.32-10.56,5.83-2.99,2.51-5.42,5.54-7.28,9.1-1.78,3.56-2.67,7.48-2.67,11.77v39.32Z'
+        },
+        { d: 'M260.96,169.06V0h22.33v169.06h-22.33Z' },
+        { d: 'M223.73,169.06V0h22.33v169.06h-22.33Z' },
+        {
+            d: 'M107.74,105.71c0-9.63,1.17-18.53,3.52-26.7,2.43-8.25,5.99-15.25,10.68-21,4.77-5.83,10.52-10.4,17.23-13.71,6.72-3.32,14.44-4.98,23.18-4.98s17.11,1.58,23.91,4.73c6.8,3.16,12.42,7.48,16.87,12.99,4.45,5.42,7.81,11.81,10.07,19.18,2.27,7.36,3.4,15.29,3.4,23.79v11.89h-85.32v13.47c0,4.61.85,8.7,2.55,12.26,1.78,3.56,4.17,6.59,7.16,9.1,2.99,2.43,6.35,4.29,10.07,5.58,3.72,1.21,7.57,1.82,11.53,1.82,7.93,0,14.81-2.02,20.63-6.07,5.83-4.05,9.14-10.48,9.95-19.3h22.45c-.49,6.8-2.27,12.86-5.34,18.2-3.07,5.26-7.08,9.75-12.02,13.47-4.85,3.72-10.36,6.59-16.51,8.62-6.15,2.02-12.62,3.03-19.42,3.03-9.14,0-17.15-1.66-24.03-4.98-6.8-3.32-12.5-7.89-17.11-13.71-4.53-5.83-7.93-12.78-10.19-20.87-2.18-8.09-3.28-17.03-3.28-26.82ZM131.28,94.06h62.14v-7.04c0-4.61-.85-8.78-2.55-12.5-1.62-3.72-3.88-6.88-6.8-9.47-2.83-2.59-6.15-4.53-9.95-5.83-3.72-1.38-7.65-2.06-11.77-2.06s-8.05.69-11.77,2.06c-3.72,1.29-7.04,3.24-9.95,5.83-2.91,2.59-5.22,5.74-6.92,9.47-1.62,3.72-2.43,7.89-2.43,12.5v7.04Z'
+        },
+        {
+            d: 'M0,169.06V0h22.33v63.23c3.48-7.44,8.25-13.27,14.32-17.48,6.07-4.29,13.92-6.43,23.55-6.43,6.15,0,11.73.85,16.75,2.55,5.02,1.62,9.35,4.25,12.99,7.89,3.64,3.64,6.47,8.33,8.5,14.08,2.02,5.66,3.03,12.58,3.03,20.75v84.47h-22.45v-82.04c0-9.3-1.78-16.59-5.34-21.85-3.56-5.34-10.15-8.01-19.78-8.01-4.61,0-8.82.93-12.62,2.79-3.8,1.78-7.12,4.37-9.95,7.77-2.83,3.4-5.06,7.44-6.68,12.14-1.54,4.61-2.31,9.67-2.31,15.17v74.03H0Z'
+        },
+        {
+            d: 'M956.64,23.42V0h23.3v23.42h-23.3ZM957.12,169.06V42.36h22.33v126.71h-22.33Z'
+        },
+        {
+            d: 'M773.78,169.06V42.36h22.33v20.88c2.83-6.96,7.2-12.66,13.11-17.11,5.9-4.53,13.31-6.8,22.21-6.8,8.42,0,15.86,2.1,22.33,6.31,6.47,4.21,11.12,10.8,13.96,19.78,2.67-7.44,7.2-13.63,13.59-18.57,6.39-5.02,14.28-7.52,23.67-7.52,5.5,0,10.64.85,15.41,2.55,4.85,1.62,9.06,4.25,12.62,7.89,3.56,3.64,6.31,8.33,8.25,14.08,2.03,5.66,3.03,12.58,3.03,20.75v84.47h-22.33v-82.04c0-9.3-1.78-16.59-5.34-21.85-3.56-5.34-9.51-8.01-17.84-8.01-3.96,0-7.65.93-11.04,2.79-3.4,1.78-6.43,4.37-9.1,7.77-2.67,3.4-4.73,7.44-6.19,12.14-1.46,4.61-2.19,9.67-2.19,15.17v74.03h-22.45v-82.04c0-9.3-1.78-16.59-5.34-21.85-3.56-5.34-9.46-8.01-17.72-8.01-3.96,0-7.65.93-11.04,2.79-3.4,1.78-6.43,4.37-9.1,7.77-2.67,3.4-4.78,7.44-6.31,12.14-1.45,4.61-2.18,9.67-2.18,15.17v74.03h-22.33Z'
+        },
+        {
+            d: 'M656.21,134.23c0-9.95,3.15-18.49,9.46-25.61,6.31-7.12,15.78-11.25,28.4-12.38l41.26-3.76v-10.19c0-4.94-.64-9.02-1.94-12.26-1.21-3.24-2.99-5.79-5.34-7.65-2.26-1.94-5.02-3.28-8.25-4-3.24-.81-6.84-1.21-10.8-1.21-7.93,0-14.28,1.78-19.05,5.34-4.69,3.56-7.04,9.43-7.04,17.6h-22.45c0-5.99,1.29-11.45,3.88-16.38,2.59-5.02,6.07-9.35,10.44-12.99,4.37-3.64,9.51-6.43,15.41-8.37,5.91-2.02,12.26-3.03,19.05-3.03s13.11.89,18.94,2.67c5.9,1.7,11,4.29,15.29,7.77,4.37,3.48,7.73,7.97,10.07,13.47,2.43,5.42,3.64,11.85,3.64,19.3v67.36h18.94v19.18h-37.87l-.49-23.42h-.97c-3.48,8.98-8.62,15.66-15.41,20.03-6.8,4.29-14.93,6.43-24.39,6.43-6.31,0-12.01-.97-17.11-2.91-5.1-1.94-9.51-4.81-13.23-8.62-3.31-3.32-5.9-7.28-7.76-11.89-1.78-4.61-2.67-9.43-2.67-14.44ZM679.87,137.27c0,5.83,2.02,10.11,6.07,12.86,4.04,2.67,9.63,4.01,16.75,4.01,10.11,0,18.08-3.6,23.91-10.8,5.83-7.2,8.74-16.51,8.74-27.91v-5.7l-45.02,4.13c-4.61.32-7.53,1.54-8.74,3.64-1.13,2.1-1.7,4.98-1.7,8.62v11.17Z'
+        },
+        {
+            d: 'M627.47,23.42V0h23.3v23.42h-23.3ZM627.96,169.06V42.36h22.33v126.71h-22.33Z'
+        },
+        {
+            d: 'M444.61,169.06V42.36h22.33v20.88c2.83-6.96,7.2-12.66,13.11-17.11,5.9-4.53,13.31-6.8,22.21-6.8,8.42,0,15.86,2.1,22.33,6.31,6.47,4.21,11.12,10.8,13.96,19.78,2.67-7.44,7.2-13.63,13.59-18.57,6.39-5.02,14.28-7.52,23.67-7.52,5.5,0,10.64.85,15.41,2.55,4.85,1.62,9.06,4.25,12.62,7.89,3.56,3.64,6.31,8.33,8.25,14.08,2.03,5.66,3.03,12.58,3.03,20.75v84.47h-22.33v-82.04c0-9.3-1.78-16.59-5.34-21.85-3.56-5.34-9.51-8.01-17.84-8.01-3.96,0-7.65.93-11.04,2.79-3.4,1.78-6.43,4.37-9.1,7.77-2.67,3.4-4.73,7.44-6.19,12.14-1.46,4.61-2.19,9.67-2.19,15.17v74.03h-22.45v-82.04c0-9.3-1.78-16.59-5.34-21.85-3.56-5.34-9.46-8.01-17.72-8.01-3.96,0-7.65.93-11.04,2.79-3.4,1.78-6.43,4.37-9.1,7.77-2.67,3.4-4.77,7.44-6.31,12.14-1.45,4.61-2.18,9.67-2.18,15.17v74.03h-22.33Z'
+        },
+        { d: 'M387.53,181.34v-12.28h57.16v12.28h-57.16Z', evenOdd: true }
+    ] as { d: string; evenOdd?: boolean }[]
+};
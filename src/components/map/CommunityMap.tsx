@@ -1,10 +1,58 @@
-import { useMemo, useState, useRef } from 'react';
+import {
+    useCallback,
+    useEffect,
+    useMemo,
+    useState,
+    useRef,
+    type ReactNode
+} from 'react';
+import { CircleDot, Flame, Map as MapIcon } from 'lucide-react';
 import MapLibreGL, { type LngLatBoundsLike } from 'maplibre-gl';
-import useSupercluster from 'use-supercluster';
 
-import { Map, MapMarker, MarkerContent, MarkerTooltip } from '../ui/map';
-import zipCounts from '../../data/zip-counts.json';
-import zipGeoCache from '../../data/zip-geo-cache.json';
+import {
+    Map,
+    MapChoroplethLayer,
+    MapClusterLayer,
+    MapControls,
+    MapHeatmapLayer,
+    MapMarker,
+    MapPopup,
+    MarkerContent,
+    MarkerLabel,
+    MarkerTooltip,
+    type MapClusterHover
+} from '../ui/map';
+import { mapConfig } from '../../config/map';
+import { useReport } from '../../hooks/use-report';
+import { useTimelineMonth } from '../../hooks/use-timeline-month';
+import type { ZipCounts, ZipLocations } from '../../types/stats';
+import { cn } from '../../utils/cn';
+import { buildRegionCounts, type RegionProperties } from './boundaries';
+import { CommuteRings } from './CommuteRings';
+import { OutlineMap } from './OutlineMap';
+
+type MapMode = 'bubbles' | 'heatmap' | 'choropleth';
+
+const MAP_MODES: { id: MapMode; label: string; icon: ReactNode }[] = [
+    { id: 'bubbles', label: 'Bubbles', icon: <CircleDot className="size-4" /> },
+    { id: 'heatmap', label: 'Heatmap', icon: <Flame className="size-4" /> },
+    { id: 'choropleth', label: 'Regions', icon: <MapIcon className="size-4" /> }
+];
+
+// Choropleth detail by zoom: states, then Florida counties, then ZCTAs
+const COUNTY_MIN_ZOOM = 5;
+const ZCTA_MIN_ZOOM = 9;
+
+// Bubble radius grows with the square root of RSVPs, so area tracks count
+const POINT_RADIUS: MapLibreGL.ExpressionSpecification = [
+    '+',
+    ['*', ['sqrt', ['get', 'count']], 4],
+    2
+];
+
+function pointSize(count: number) {
+    return (Math.sqrt(count) * 4 + 2) * 2;
+}
 
 // Type for our data point
 interface MapPoint {
@@ -15,40 +63,82 @@ interface MapPoint {
     name: string;
 }
 
-interface GeoCacheItem {
-    lat: string;
-    lon: string;
-    display_name: string;
+// Every published ZIP has a location, unless zip-locations.json is missing
+function toPoints(
+    counts: ZipCounts,
+    zipLocations: ZipLocations | null
+): MapPoint[] {
+    return Object.entries(counts)
+        .map(([zip, count]) => {
+            const location = zipLocations?.[zip];
+            if (!location) return null;
+            return {
+                zip,
+                count,
+                lat: location.lat,
+                lon: location.lon,
+                name: `${location.city}, ${location.state}`
+            };
+        })
+        .filter((p): p is MapPoint => p !== null)
+        .sort((a, b) => b.count - a.count);
 }
 
-const geoCache = zipGeoCache as Record<string, GeoCacheItem>;
-
-export function CommunityMap() {
-    const points: MapPoint[] = useMemo(() => {
-        return Object.entries(zipCounts)
-            .map(([zip, count]) => {
-                const geo = geoCache[zip];
-                if (!geo) return null;
-                return {
-                    zip,
-                    count: count as number,
-                    lat: parseFloat(geo.lat),
-                    lon: parseFloat(geo.lon),
-                    name: geo.display_name.split(',')[0]
-                };
-            })
-            .filter((p): p is MapPoint => p !== null)
-            .sort((a, b) => b.count - a.count);
-    }, []);
+interface CommunityMapProps {
+    /** A region to fly to; pass a new object to fly there again */
+    focus?: { bounds: [number, number, number, number] } | null;
+}
+
+export function CommunityMap({ focus }: CommunityMapProps) {
+    const { zipCounts, zipLocations, zipTimeline, distanceStats } = useReport();
+    const { month } = useTimelineMonth();
+
+    // The whole year frames the map, so it holds still during the time-lapse
+    const allPoints = useMemo(
+        () => toPoints(zipCounts, zipLocations),
+        [zipCounts, zipLocations]
+    );
+
+    // Counts so far, and the ZIPs seen for the first time, at the
+    // time-lapse month
+    const { points, newZips } = useMemo(() => {
+        if (!zipTimeline || month === null) {
+            return { points: allPoints, newZips: new Set<string>() };
+        }
+
+        // Each month already holds the totals so far
+        const index = zipTimeline.findIndex(m => m.fullRequest === month);
+        const totals = zipTimeline[index]?.counts ?? {};
+        const before = zipTimeline[index - 1]?.counts ?? {};
+        const newZips = new Set(
+            Object.keys(totals).filter(zip => !(zip in before))
+        );
+
+        return { points: toPoints(totals, zipLocations), newZips };
+    }, [allPoints, zipTimeline, zipLocations, month]);
+
+    const [mode, setMode] = useState<MapMode>('bubbles');
+    const [showRings, setShowRings] = useState(true);
+    const [hoveredRegion, setHoveredRegion] = useState<RegionProperties | null>(
+        null
+    );
+
+    const regions = useMemo(() => buildRegionCounts(points), [points]);
+
+    const handleRegionHover = useCallback(
+        (region: GeoJSON.Feature<GeoJSON.Geometry, RegionProperties> | null) =>
+            setHoveredRegion(region?.properties ?? null),
+        []
+    );
 
     const bounds = useMemo((): LngLatBoundsLike | undefined => {
-        if (points.length === 0) return undefined;
+        if (allPoints.length === 0) return undefined;
         let minLat = Infinity,
             maxLat = -Infinity,
             minLon = Infinity,
             maxLon = -Infinity;
 
-        points.forEach(p => {
+        allPoints.forEach(p => {
             if (p.lat < minLat) minLat = p.lat;
             if (p.lat > maxLat) maxLat = p.lat;
             if (p.lon < minLon) minLon = p.lon;
@@ -59,45 +149,52 @@ export function CommunityMap() {
             [minLon, minLat],
             [maxLon, maxLat]
         ];
-    }, [points]);
+    }, [allPoints]);
 
-    // Clustering setup
     const mapRef = useRef<MapLibreGL.Map | null>(null);
-    const [zoom, setZoom] = useState(10);
-    const [mapBounds, setMapBounds] = useState<
-        [number, number, number, number] | null
-    >(null);
-
-    const pointsGeoJson = useMemo(() => {
-        return points.map(p => ({
-            type: 'Feature' as const,
-            properties: { cluster: false, pointId: p.zip, ...p },
-            geometry: {
-                type: 'Point' as const,
-                coordinates: [p.lon, p.lat]
-            }
-        }));
-    }, [points]);
-
-    const { clusters, supercluster } = useSupercluster({
-        points: pointsGeoJson,
-        bounds: mapBounds ?? undefined,
-        zoom,
-        options: { radius: 75, maxZoom: 15 }
-    });
-
-    const updateMapState = () => {
-        if (mapRef.current) {
-            setZoom(mapRef.current.getZoom());
-            const b = mapRef.current.getBounds();
-            setMapBounds([
-                b.getWest(),
-                b.getSouth(),
-                b.getEast(),
-                b.getNorth()
-            ]);
-        }
-    };
+
+    useEffect(() => {
+        if (!focus) return;
+        mapRef.current?.fitBounds(focus.bounds, {
+            padding: 60,
+            maxZoom: 12,
+            duration: 1200
+        });
+    }, [focus]);
+
+    // Clustered on the GPU by the map's GeoJSON source
+    const pointsCollection = useMemo(
+        (): GeoJSON.FeatureCollection<GeoJSON.Point, MapPoint> => ({
+            type: 'FeatureCollection',
+            features: points.map(p => ({
+                type: 'Feature',
+                properties: p,
+                geometry: { type: 'Point', coordinates: [p.lon, p.lat] }
+            }))
+        }),
+        [points]
+    );
+
+    // New ZIPs fade in as DOM markers, and join the clusters a month later
+    const clusteredPoints = useMemo(
+        (): GeoJSON.FeatureCollection<GeoJSON.Point, MapPoint> => ({
+            ...pointsCollection,
+            features: pointsCollection.features.filter(
+                f => !newZips.has(f.properties.zip)
+            )
+        }),
+        [pointsCollection, newZips]
+    );
+
+    const [hoveredCluster, setHoveredCluster] =
+        useState<MapClusterHover<MapPoint> | null>(null);
+    const [hoveredPoint, setHoveredPoint] = useState<MapPoint | null>(null);
+
+    const handlePointHover = useCallback(
+        (feature: GeoJSON.Feature<GeoJSON.Point, MapPoint> | null) =>
+            setHoveredPoint(feature?.properties ?? null),
+        []
+    );
 
     if (!bounds) {
         return <div>No data to map</div>;
@@ -107,113 +204,195 @@ export function CommunityMap() {
         <div className="w-full h-96 md:h-150 bg-zinc-950 overflow-hidden relative border-2 border-border">
             <Map
                 ref={mapRef}
+                basemap={mapConfig.basemap}
+                fallback={
+                    <OutlineMap
+                        points={points}
+                        regions={regions}
+                        mode={mode === 'choropleth' ? 'choropleth' : 'bubbles'}
+                    />
+                }
                 bounds={bounds}
                 fitBoundsOptions={{ padding: 50 }}
-                onMoveEnd={updateMapState}
-                onLoad={updateMapState}
             >
-                {clusters.map(cluster => {
-                    const [longitude, latitude] = cluster.geometry.coordinates;
-                    const { cluster: isCluster, point_count: pointCount } =
-                        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                        cluster.properties as any;
-
-                    if (isCluster) {
-                        const leaves = supercluster?.getLeaves(
-                            cluster.id as number,
-                            Infinity
-                        );
-
-                        return (
+                {mode === 'choropleth' && (
+                    <>
+                        <MapChoroplethLayer
+                            id="states"
+                            data={regions.states}
+                            valueProperty="count"
+                            maxZoom={COUNTY_MIN_ZOOM}
+                            onFeatureHover={handleRegionHover}
+                        />
+                        <MapChoroplethLayer
+                            id="counties"
+                            data={regions.counties}
+                            valueProperty="count"
+                            minZoom={COUNTY_MIN_ZOOM}
+                            maxZoom={regions.zctas ? ZCTA_MIN_ZOOM : 24}
+                            onFeatureHover={handleRegionHover}
+                        />
+                        {regions.zctas && (
+                            <MapChoroplethLayer
+                                id="zctas"
+                                data={regions.zctas}
+                                valueProperty="count"
+                                minZoom={ZCTA_MIN_ZOOM}
+                                onFeatureHover={handleRegionHover}
+                            />
+                        )}
+                    </>
+                )}
+
+                <MapControls
+                    position="top-right"
+                    layers={MAP_MODES}
+                    activeLayer={mode}
+                    onLayerChange={id => {
+                        setMode(id as MapMode);
+                        setHoveredRegion(null);
+                        setHoveredCluster(null);
+                        setHoveredPoint(null);
+                    }}
+                />
+
+                {mode === 'heatmap' && (
+                    <MapHeatmapLayer
+                        id="guests"
+                        data={pointsCollection}
+                        weightProperty="count"
+                    />
+                )}
+
+                {distanceStats && showRings && (
+                    <CommuteRings venues={distanceStats.venues} />
+                )}
+
+                {mode === 'bubbles' && (
+                    <MapClusterLayer
+                        data={clusteredPoints}
+                        clusterRadius={75}
+                        clusterMaxZoom={15}
+                        clusterColors={['#00d492', '#00b37a', '#008f62']}
+                        clusterThresholds={[10, 50]}
+                        pointColor="rgba(0, 212, 146, 0.6)"
+                        pointRadius={POINT_RADIUS}
+                        onClusterHover={setHoveredCluster}
+                        onPointHover={handlePointHover}
+                    />
+                )}
+
+                {mode === 'bubbles' && hoveredCluster && (
+                    <MapPopup
+                        key={hoveredCluster.clusterId}
+                        longitude={hoveredCluster.coordinates[0]}
+                        latitude={hoveredCluster.coordinates[1]}
+                        closeOnClick={false}
+                        className="w-56 p-0 overflow-hidden"
+                    >
+                        <div className="bg-muted/50 px-3 py-2 border-b">
+                            <h4 className="font-medium text-xs text-muted-foreground uppercase tracking-wider">
+                                Zip Codes
+                            </h4>
+                        </div>
+                        <div className="max-h-48 overflow-y-auto p-2">
+                            {hoveredCluster.leaves
+                                .map(leaf => leaf.properties)
+                                .sort((a, b) => b.count - a.count)
+                                .map(p => (
+                                    <div
+                                        key={p.zip}
+                                        className="flex justify-between items-center py-1.5 px-2 rounded-sm"
+                                    >
+                                        <div className="flex items-center gap-2">
+                                            <div className="size-1.5 rounded-full bg-primary/70" />
+                                            <span className="font-mono text-sm text-foreground">
+                                                {p.zip}
+                                            </span>
+                                        </div>
+                                        <span className="text-xs font-medium text-muted-foreground bg-secondary px-1.5 py-0.5 rounded">
+                                            {p.count} RSVPs
+                                        </span>
+                                    </div>
+                                ))}
+                        </div>
+                        <div className="bg-muted/30 px-3 py-1.5 border-t text-[10px] text-muted-foreground text-center">
+                            {hoveredCluster.pointCount} locations in this
+                            cluster
+                        </div>
+                    </MapPopup>
+                )}
+
+                {mode === 'bubbles' &&
+                    points
+                        .filter(p => newZips.has(p.zip))
+                        .map(p => (
                             <MapMarker
-                                key={`cluster-${cluster.id}`}
-                                latitude={latitude}
-                                longitude={longitude}
-                                onClick={() => {
-                                    const expansionZoom = Math.min(
-                                        supercluster!.getClusterExpansionZoom(
-                                            cluster.id as number
-                                        ),
-                                        20
-                                    );
-                                    mapRef.current?.flyTo({
-                                        center: [longitude, latitude],
-                                        zoom: expansionZoom,
-                                        speed: 1.2
-                                    });
-                                }}
+                                key={`${month}-${p.zip}`}
+                                longitude={p.lon}
+                                latitude={p.lat}
                             >
                                 <MarkerContent>
-                                    <div className="flex items-center justify-center w-10 h-10 rounded-full bg-primary text-primary-foreground border-2 border-primary-foreground font-bold shadow-lg hover:scale-110 transition-transform cursor-pointer">
-                                        {pointCount}
-                                    </div>
+                                    <div
+                                        style={{
+                                            width: `${pointSize(p.count)}px`,
+                                            height: `${pointSize(p.count)}px`
+                                        }}
+                                        className="rounded-full bg-primary/60 border border-white animate-in fade-in-0 zoom-in-50 duration-1000"
+                                    />
                                 </MarkerContent>
-                                <MarkerTooltip className="p-0 border-none bg-transparent shadow-none">
-                                    <div className="w-56 rounded-md border bg-popover text-popover-foreground shadow-md overflow-hidden">
-                                        <div className="bg-muted/50 px-3 py-2 border-b">
-                                            <h4 className="font-medium text-xs text-muted-foreground uppercase tracking-wider">
-                                                Zip Codes
-                                            </h4>
-                                        </div>
-                                        <div className="max-h-48 overflow-y-auto p-2">
-                                            {leaves?.map(leaf => {
-                                                const p =
-                                                    leaf.properties as unknown as MapPoint;
-                                                return (
-                                                    <div
-                                                        key={p.zip}
-                                                        className="flex justify-between items-center py-1.5 px-2 hover:bg-muted/50 rounded-sm transition-colors"
-                                                    >
-                                                        <div className="flex items-center gap-2">
-                                                            <div className="size-1.5 rounded-full bg-primary/70" />
-                                                            <span className="font-mono text-sm text-foreground">
-                                                                {p.zip}
-                                                            </span>
-                                                        </div>
-                                                        <span className="text-xs font-medium text-muted-foreground bg-secondary px-1.5 py-0.5 rounded">
-                                                            {p.count} guests
-                                                        </span>
-                                                    </div>
-                                                );
-                                            })}
-                                        </div>
-                                        <div className="bg-muted/30 px-3 py-1.5 border-t text-[10px] text-muted-foreground text-center">
-                                            {leaves?.length} locations in this
-                                            cluster
-                                        </div>
-                                    </div>
+                                <MarkerTooltip>
+                                    {p.zip} ({p.name}): new, {p.count} RSVPs
                                 </MarkerTooltip>
                             </MapMarker>
-                        );
-                    }
-
-                    // Individual point
-                    const point = cluster.properties as unknown as MapPoint;
-                    const radius = Math.sqrt(point.count) * 4 + 2;
-                    const size = radius * 2;
-
-                    return (
-                        <MapMarker
-                            key={point.zip}
-                            longitude={longitude}
-                            latitude={latitude}
-                        >
-                            <MarkerContent>
-                                <div
-                                    style={{
-                                        width: `${size}px`,
-                                        height: `${size}px`
-                                    }}
-                                    className="bg-primary/40 rounded-full border border-primary hover:bg-primary hover:opacity-100 transition-all duration-300"
-                                />
-                            </MarkerContent>
-                            <MarkerTooltip>
-                                {point.zip}: {point.count} guests
-                            </MarkerTooltip>
-                        </MapMarker>
-                    );
-                })}
+                        ))}
+
+                {/* Otherwise only the hovered ZIP gets a DOM marker */}
+                {mode === 'bubbles' && hoveredPoint && (
+                    <MapMarker
+                        key={hoveredPoint.zip}
+                        longitude={hoveredPoint.lon}
+                        latitude={hoveredPoint.lat}
+                        className="pointer-events-none"
+                    >
+                        <MarkerContent>
+                            <div
+                                style={{
+                                    width: `${pointSize(hoveredPoint.count)}px`,
+                                    height: `${pointSize(hoveredPoint.count)}px`
+                                }}
+                                className="rounded-full border-2 border-white"
+                            />
+                            <MarkerLabel className="px-1.5 py-0.5 bg-popover text-popover-foreground text-xs rounded-sm shadow-md">
+                                {hoveredPoint.zip} ({hoveredPoint.name}):{' '}
+                                {hoveredPoint.count} RSVPs
+                            </MarkerLabel>
+                        </MarkerContent>
+                    </MapMarker>
+                )}
             </Map>
+
+            {distanceStats && (
+                <button
+                    type="button"
+                    aria-pressed={showRings}
+                    onClick={() => setShowRings(show => !show)}
+                    className={cn(
+                        'absolute top-3 left-3 z-10 px-3 py-1.5 border-2 border-white font-mono text-xs font-bold uppercase transition-all',
+                        showRings
+                            ? 'bg-white text-black'
+                            : 'bg-black text-white hover:bg-zinc-800'
+                    )}
+                >
+                    Rings
+                </button>
+            )}
+
+            {mode === 'choropleth' && hoveredRegion && (
+                <div className="absolute bottom-3 left-3 z-10 px-3 py-2 border-2 border-[#00d492] bg-zinc-950 font-mono text-sm text-white">
+                    {hoveredRegion.name}: {hoveredRegion.count} RSVPs
+                </div>
+            )}
         </div>
     );
 }
@@ -0,0 +1,71 @@
+import { useMemo } from 'react';
+
+import { MapMarker, MapRoute, MarkerContent, MarkerTooltip } from '../ui/map';
+import type { Venue } from '../../types/stats';
+import { circleCoordinates, RING_MILES } from '../../utils/geo';
+
+interface CommuteRingsProps {
+    venues: Venue[];
+}
+
+/** Dashed 5/10/25/50-mile rings around each venue, labelled at the top */
+export function CommuteRings({ venues }: CommuteRingsProps) {
+    const rings = useMemo(
+        () =>
+            venues.flatMap((venue, venueIdx) =>
+                RING_MILES.map(miles => {
+                    const coordinates = circleCoordinates(venue, miles);
+                    return {
+                        id: `ring-${venueIdx}-${miles}`,
+                        miles,
+                        coordinates,
+                        // The first point is due north of the venue
+                        top: coordinates[0]
+                    };
+                })
+            ),
+        [venues]
+    );
+
+    return (
+        <>
+            {rings.map(ring => (
+                <MapRoute
+                    key={ring.id}
+                    id={ring.id}
+                    coordinates={ring.coordinates}
+                    color="#ffffff"
+                    width={1}
+                    opacity={0.5}
+                    dashArray={[2, 2]}
+                    interactive={false}
+                />
+            ))}
+            {rings.map(ring => (
+                <MapMarker
+                    key={`${ring.id}-label`}
+                    longitude={ring.top[0]}
+                    latitude={ring.top[1]}
+                >
+                    <MarkerContent>
+                        <span className="px-1 bg-black/70 font-mono text-[10px] text-white">
+                            {ring.miles} mi
+                        </span>
+                    </MarkerContent>
+                </MapMarker>
+            ))}
+            {venues.map(venue => (
+                <MapMarker
+                    key={venue.name}
+                    longitude={venue.lon}
+                    latitude={venue.lat}
+                >
+                    <MarkerContent>
+                        <div className="size-3 bg-white border-2 border-black rotate-45" />
+                    </MarkerContent>
+                    <MarkerTooltip>{venue.name}</MarkerTooltip>
+                </MapMarker>
+            ))}
+        </>
+    );
+}
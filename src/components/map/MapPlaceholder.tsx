@@ -0,0 +1,27 @@
+import { MapPinIcon } from 'lucide-react';
+
+import { useReport } from '../../hooks/use-report';
+
+/**
+ * Stands in for the community map in prerendered HTML and while the map
+ * bundle loads, with the same footprint so the page does not jump.
+ */
+export function MapPlaceholder() {
+    const { zipCounts } = useReport();
+
+    // ZIP counts are per RSVP, so a regular is counted at every hack night
+    const zips = Object.keys(zipCounts).length;
+    const rsvps = Object.values(zipCounts).reduce((a, b) => a + b, 0);
+
+    return (
+        <div className="w-full h-96 md:h-150 bg-zinc-950 border-2 border-border flex flex-col items-center justify-center gap-4 text-center px-6">
+            <MapPinIcon className="size-10 text-[#00d492]" />
+            <p className="font-mono text-zinc-400">
+                {rsvps} RSVPs across {zips} zip codes
+            </p>
+            <p className="font-mono text-xs text-zinc-600 uppercase">
+                Loading interactive map…
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,126 @@
+import { useMemo } from 'react';
+import { geoMercator, geoPath } from 'd3-geo';
+
+import type { RegionCollection } from './boundaries';
+
+interface OutlinePoint {
+    zip: string;
+    count: number;
+    lat: number;
+    lon: number;
+}
+
+interface OutlineMapProps {
+    points: OutlinePoint[];
+    regions: { states: RegionCollection; counties: RegionCollection };
+    mode: 'bubbles' | 'choropleth';
+}
+
+const WIDTH = 800;
+const HEIGHT = 600;
+const PADDING = 40;
+
+/** Green accent (#00d492) at an opacity proportional to the share of the max */
+function regionFill(count: number, max: number) {
+    if (count === 0) return '#18181b'; // zinc-900
+    return `rgba(0, 212, 146, ${0.15 + (count / max) * 0.85})`;
+}
+
+/**
+ * SVG stand-in for the community map, drawn with `d3-geo` from the bundled
+ * boundaries. Used when WebGL or the basemap tiles are unavailable, so the
+ * geography section never renders blank.
+ */
+export function OutlineMap({ points, regions, mode }: OutlineMapProps) {
+    const path = useMemo(() => {
+        const projection = geoMercator().fitExtent(
+            [
+                [PADDING, PADDING],
+                [WIDTH - PADDING, HEIGHT - PADDING]
+            ],
+            {
+                type: 'MultiPoint',
+                coordinates: points.map(p => [p.lon, p.lat])
+            }
+        );
+        return geoPath(projection);
+    }, [points]);
+
+    const project = path.projection() as (
+        point: [number, number]
+    ) => [number, number] | null;
+
+    const maxState = Math.max(
+        1,
+        ...regions.states.features.map(f => f.properties.count)
+    );
+    const maxCounty = Math.max(
+        1,
+        ...regions.counties.features.map(f => f.properties.count)
+    );
+
+    return (
+        <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-full bg-zinc-950"
+            role="img"
+            aria-label="Map of where builders come from"
+        >
+            {regions.states.features.map(f => (
+                <path
+                    key={`state-${f.id}`}
+                    d={path(f) ?? undefined}
+                    fill={
+                        mode === 'choropleth'
+                            ? regionFill(f.properties.count, maxState)
+                            : '#18181b'
+                    }
+                    stroke="#52525b"
+                    strokeWidth={1}
+                >
+                    <title>
+                        {f.properties.name}: {f.properties.count} RSVPs
+                    </title>
+                </path>
+            ))}
+
+            {regions.counties.features.map(f => (
+                <path
+                    key={`county-${f.id}`}
+                    d={path(f) ?? undefined}
+                    fill={
+                        mode === 'choropleth'
+                            ? regionFill(f.properties.count, maxCounty)
+                            : 'none'
+                    }
+                    stroke="#3f3f46"
+                    strokeWidth={0.5}
+                >
+                    <title>
+                        {f.properties.name}: {f.properties.count} RSVPs
+                    </title>
+                </path>
+            ))}
+
+            {mode === 'bubbles' &&
+                points.map(p => {
+                    const xy = project([p.lon, p.lat]);
+                    if (!xy) return null;
+                    return (
+                        <circle
+                            key={p.zip}
+                            cx={xy[0]}
+                            cy={xy[1]}
+                            r={Math.sqrt(p.count) * 2 + 1.5}
+                            fill="rgba(0, 212, 146, 0.4)"
+                            stroke="#00d492"
+                        >
+                            <title>
+                                {p.zip}: {p.count} RSVPs
+                            </title>
+                        </circle>
+                    );
+                })}
+        </svg>
+    );
+}
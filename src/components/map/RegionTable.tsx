@@ -0,0 +1,224 @@
+import { useMemo, useState, type MouseEvent } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+
+import {
+    Pagination,
+    PaginationContent,
+    PaginationItem,
+    PaginationNext,
+    PaginationPrevious
+} from '../ui/pagination';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow
+} from '../ui/table';
+import type { RegionRollup, RegionRollups } from '../../types/stats';
+import { cn } from '../../utils/cn';
+
+type RegionLevel = keyof RegionRollups;
+type SortKey = 'name' | 'value' | 'zips';
+
+const LEVELS: { level: RegionLevel; label: string }[] = [
+    { level: 'neighborhoods', label: 'Neighborhoods' },
+    { level: 'cities', label: 'Cities' },
+    { level: 'counties', label: 'Counties' },
+    { level: 'states', label: 'States' }
+];
+
+const COLUMNS: { key: SortKey; label: string; numeric: boolean }[] = [
+    { key: 'name', label: 'Region', numeric: false },
+    { key: 'value', label: 'RSVPs', numeric: true },
+    { key: 'zips', label: 'ZIPs', numeric: true }
+];
+
+const PAGE_SIZE = 10;
+
+interface RegionTableProps {
+    rollups: RegionRollups;
+    /** Called when a row is clicked, to bring the region into view */
+    onSelect: (region: RegionRollup) => void;
+}
+
+/** Sortable, paginated RSVP counts per neighborhood, city, county or state */
+export function RegionTable({ rollups, onSelect }: RegionTableProps) {
+    const [level, setLevel] = useState<RegionLevel>('neighborhoods');
+    const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+        key: 'value',
+        descending: true
+    });
+    const [page, setPage] = useState(0);
+
+    // Every placed RSVP is in exactly one state
+    const total = rollups.states.reduce((sum, s) => sum + s.value, 0);
+
+    const rows = useMemo(() => {
+        const direction = sort.descending ? -1 : 1;
+        return [...rollups[level]].sort((a, b) => {
+            const order =
+                sort.key === 'name'
+                    ? a.name < b.name
+                        ? -1
+                        : a.name > b.name
+                          ? 1
+                          : 0
+                    : a[sort.key] - b[sort.key];
+            return order * direction || b.value - a.value;
+        });
+    }, [rollups, level, sort]);
+
+    const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+    const pageRows = rows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+    const changeSort = (key: SortKey) => {
+        setSort(current =>
+            current.key === key
+                ? { key, descending: !current.descending }
+                : { key, descending: key !== 'name' }
+        );
+        setPage(0);
+    };
+
+    const goTo = (target: number) => (e: MouseEvent) => {
+        e.preventDefault();
+        setPage(Math.min(Math.max(target, 0), pageCount - 1));
+    };
+
+    return (
+        <div className="flex flex-col gap-4 font-mono">
+            <div className="flex flex-wrap border-2 border-white bg-black text-xs font-bold uppercase w-fit">
+                {LEVELS.map(option => (
+                    <button
+                        key={option.level}
+                        type="button"
+                        aria-pressed={level === option.level}
+                        onClick={() => {
+                            setLevel(option.level);
+                            setPage(0);
+                        }}
+                        className={cn(
+                            'px-2.5 py-1.5 transition-all',
+                            level === option.level
+                                ? 'bg-white text-black'
+                                : 'text-white hover:bg-zinc-800'
+                        )}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+
+            <Table>
+                <TableHeader>
+                    <TableRow className="border-zinc-800 hover:bg-transparent">
+                        {COLUMNS.map(column => {
+                            const active = sort.key === column.key;
+                            return (
+                                <TableHead
+                                    key={column.key}
+                                    aria-sort={
+                                        active
+                                            ? sort.descending
+                                                ? 'descending'
+                                                : 'ascending'
+                                            : undefined
+                                    }
+                                    className={cn(
+                                        'text-zinc-400',
+                                        column.numeric && 'text-right'
+                                    )}
+                                >
+                                    <button
+                                        type="button"
+                                        onClick={() => changeSort(column.key)}
+                                        className="inline-flex items-center gap-1 uppercase text-xs font-bold hover:text-white"
+                                    >
+                                        {column.label}
+                                        {active &&
+                                            (sort.descending ? (
+                                                <ArrowDown className="size-3" />
+                                            ) : (
+                                                <ArrowUp className="size-3" />
+                                            ))}
+                                    </button>
+                                </TableHead>
+                            );
+                        })}
+                        <TableHead className="text-right text-zinc-400 text-xs font-bold uppercase">
+                            Share
+                        </TableHead>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {pageRows.map(region => (
+                        <TableRow
+                            key={region.name}
+                            onClick={() => onSelect(region)}
+                            className="border-zinc-800 cursor-pointer hover:bg-zinc-900"
+                        >
+                            <TableCell className="font-bold text-white">
+                                <button
+                                    type="button"
+                                    onClick={e => {
+                                        e.stopPropagation();
+                                        onSelect(region);
+                                    }}
+                                    aria-label={`Show ${region.name} on the map`}
+                                    className="text-left hover:text-[#00d492]"
+                                >
+                                    {region.name}
+                                </button>
+                            </TableCell>
+                            <TableCell className="text-right text-white">
+                                {region.value}
+                            </TableCell>
+                            <TableCell className="text-right text-zinc-400">
+                                {region.zips}
+                            </TableCell>
+                            <TableCell className="text-right text-zinc-400">
+                                {total
+                                    ? `${((region.value / total) * 100).toFixed(1)}%`
+                                    : '–'}
+                            </TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+
+            {pageCount > 1 && (
+                <Pagination>
+                    <PaginationContent>
+                        <PaginationItem>
+                            <PaginationPrevious
+                                href="#"
+                                onClick={goTo(page - 1)}
+                                aria-disabled={page === 0}
+                                className={cn(
+                                    page === 0 &&
+                                        'pointer-events-none opacity-50'
+                                )}
+                            />
+                        </PaginationItem>
+                        <PaginationItem className="px-2 text-xs text-zinc-400">
+                            {page + 1} / {pageCount}
+                        </PaginationItem>
+                        <PaginationItem>
+                            <PaginationNext
+                                href="#"
+                                onClick={goTo(page + 1)}
+                                aria-disabled={page === pageCount - 1}
+                                className={cn(
+                                    page === pageCount - 1 &&
+                                        'pointer-events-none opacity-50'
+                                )}
+                            />
+                        </PaginationItem>
+                    </PaginationContent>
+                </Pagination>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { Pause, Play, RotateCcw } from 'lucide-react';
+
+import { useReport } from '../../hooks/use-report';
+import { useTimelineMonth } from '../../hooks/use-timeline-month';
+
+/** How long each month stays on screen while playing */
+const STEP_MS = 1200;
+
+/**
+ * Play/pause scrubber for the geography time-lapse. The position lives in
+ * the URL (`?month=`), which the map and the growth chart both follow.
+ */
+export function TimelineScrubber() {
+    const { year, growthStats, zipTimeline } = useReport();
+    const { months, month, setMonth } = useTimelineMonth();
+    const [playing, setPlaying] = useState(false);
+
+    const index = month === null ? months.length - 1 : months.indexOf(month);
+    const atEnd = index === months.length - 1;
+
+    // Advance one month per step, stopping on the last one
+    useEffect(() => {
+        if (!playing) return;
+
+        const timer = setTimeout(() => {
+            const next = index + 1;
+            if (next < months.length) setMonth(months[next]);
+            if (next >= months.length - 1) setPlaying(false);
+        }, STEP_MS);
+        return () => clearTimeout(timer);
+    }, [playing, index, months, setMonth]);
+
+    if (!zipTimeline || months.length < 2) return null;
+
+    const current = months[index];
+    const label = zipTimeline[index].month;
+
+    const rsvps = growthStats
+        .filter(g => g.fullRequest.startsWith(`${year}-`))
+        .filter(g => g.fullRequest <= current)
+        .reduce((sum, g) => sum + (g.count ?? 0), 0);
+    const zips = Object.keys(zipTimeline[index].counts).length;
+
+    const togglePlaying = () => {
+        // Replay from the start once the end is reached
+        if (!playing && atEnd) setMonth(months[0]);
+        setPlaying(!playing);
+    };
+
+    return (
+        <div className="flex flex-col md:flex-row md:items-center gap-4 mt-4 font-mono text-sm">
+            <div className="flex items-center gap-2">
+                <button
+                    type="button"
+                    onClick={togglePlaying}
+                    aria-label={
+                        playing ? 'Pause time-lapse' : 'Play time-lapse'
+                    }
+                    className="flex items-center justify-center size-9 border-2 border-white bg-black text-white hover:bg-zinc-800 transition-all"
+                >
+                    {playing ? (
+                        <Pause className="size-4" />
+                    ) : (
+                        <Play className="size-4" />
+                    )}
+                </button>
+                {month !== null && (
+                    <button
+                        type="button"
+                        onClick={() => {
+                            setPlaying(false);
+                            setMonth(null);
+                        }}
+                        aria-label="Show the whole year"
+                        className="flex items-center justify-center size-9 border-2 border-white bg-black text-white hover:bg-zinc-800 transition-all"
+                    >
+                        <RotateCcw className="size-4" />
+                    </button>
+                )}
+            </div>
+
+            <input
+                type="range"
+                min={0}
+                max={months.length - 1}
+                step={1}
+                value={index}
+                onChange={e => {
+                    setPlaying(false);
+                    setMonth(months[Number(e.target.value)]);
+                }}
+                aria-label="Month"
+                aria-valuetext={label}
+                className="flex-1 accent-[#00d492]"
+            />
+
+            <div className="md:w-64 md:text-right text-zinc-400 uppercase text-xs font-bold">
+                <span className="text-white">
+                    {month === null ? `All of ${year}` : `Through ${label}`}
+                </span>
+                <br />
+                {rsvps} RSVPs · {zips} ZIP codes
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,89 @@
+import { geoContains } from 'd3-geo';
+import { feature } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+
+import boundariesTopology from '../../data/geo/boundaries.topo.json';
+
+interface BoundaryProperties {
+    name: string;
+    /** Set on ZCTAs drawn from centroids rather than Census shapes */
+    approximate?: boolean;
+}
+
+// Built by `pnpm boundaries`; older builds may have no ZCTAs
+const boundaries = boundariesTopology as unknown as Topology<{
+    states: GeometryCollection<BoundaryProperties>;
+    counties: GeometryCollection<BoundaryProperties>;
+    zctas?: GeometryCollection<BoundaryProperties>;
+}>;
+
+export interface RegionProperties {
+    name: string;
+    count: number;
+}
+
+export type RegionCollection = GeoJSON.FeatureCollection<
+    GeoJSON.Polygon | GeoJSON.MultiPolygon,
+    RegionProperties
+>;
+
+interface CountedZip {
+    zip: string;
+    count: number;
+    lat: number;
+    lon: number;
+}
+
+function regions(
+    object: GeometryCollection<BoundaryProperties>,
+    label: (properties: BoundaryProperties) => string = ({ name }) => name
+): RegionCollection {
+    const collection = feature(boundaries, object) as GeoJSON.FeatureCollection<
+        GeoJSON.Polygon | GeoJSON.MultiPolygon,
+        BoundaryProperties
+    >;
+
+    return {
+        type: 'FeatureCollection',
+        features: collection.features.map(f => ({
+            ...f,
+            properties: { name: label(f.properties), count: 0 }
+        }))
+    };
+}
+
+/**
+ * Sums ZIP counts into state, Florida county and (when bundled) ZCTA
+ * polygons for the choropleth. ZIPs are placed in a state or county by
+ * their centroid, and in a ZCTA by code. Approximate ZCTAs say so in their
+ * name, which the hover card shows.
+ */
+export function buildRegionCounts(zips: CountedZip[]) {
+    const states = regions(boundaries.objects.states);
+    const counties = regions(
+        boundaries.objects.counties,
+        ({ name }) => `${name} County`
+    );
+    const zctas = boundaries.objects.zctas
+        ? regions(boundaries.objects.zctas, ({ name, approximate }) =>
+              approximate ? `ZIP ${name} (approximate area)` : `ZIP ${name}`
+          )
+        : null;
+
+    const zctasById = new Map(zctas?.features.map(f => [String(f.id), f]));
+
+    for (const { zip, count, lat, lon } of zips) {
+        const point: [number, number] = [lon, lat];
+
+        const state = states.features.find(f => geoContains(f, point));
+        if (state) state.properties.count += count;
+
+        const county = counties.features.find(f => geoContains(f, point));
+        if (county) county.properties.count += count;
+
+        const zcta = zctasById.get(zip);
+        if (zcta) zcta.properties.count += count;
+    }
+
+    return { states, counties, zctas };
+}
@@ -0,0 +1,94 @@
+import { Download } from 'lucide-react';
+
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuSub,
+    DropdownMenuSubContent,
+    DropdownMenuSubTrigger,
+    DropdownMenuTrigger
+} from './dropdown-menu';
+import { sectionDatasets } from '../../data/datasets';
+import { useReport } from '../../hooks/use-report';
+import { downloadFile, toCsv, toJson, toZip } from '../../utils/open-data';
+
+interface DataDownloadProps {
+    /** Section id, which picks the datasets */
+    section: string;
+    title: string;
+}
+
+/** "Download data" menu with the published tables behind a section */
+export function DataDownload({ section, title }: DataDownloadProps) {
+    const report = useReport();
+    const datasets = sectionDatasets(report, section);
+    if (datasets.length === 0) return null;
+
+    const prefix = `state-of-hack-night-${report.year}-${section}`;
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger className="inline-flex items-center gap-2 px-3 py-1 border-2 border-white bg-black text-white font-mono text-sm font-bold uppercase tracking-wider hover:bg-zinc-800 transition-all">
+                <Download className="size-4" />
+                Download data
+            </DropdownMenuTrigger>
+            <DropdownMenuContent
+                align="end"
+                className="rounded-none border-2 border-white bg-black text-white font-mono"
+            >
+                <DropdownMenuItem
+                    onSelect={() =>
+                        downloadFile(
+                            `${prefix}.zip`,
+                            toZip(report.year, section, title, datasets),
+                            'application/zip'
+                        )
+                    }
+                    className="rounded-none font-bold focus:bg-zinc-800 focus:text-white"
+                >
+                    All tables (.zip)
+                </DropdownMenuItem>
+                <DropdownMenuSeparator className="bg-zinc-800" />
+                <DropdownMenuLabel className="text-xs uppercase text-zinc-400">
+                    One table
+                </DropdownMenuLabel>
+                {datasets.map(dataset => (
+                    <DropdownMenuSub key={dataset.name}>
+                        <DropdownMenuSubTrigger className="rounded-none focus:bg-zinc-800 data-[state=open]:bg-zinc-800">
+                            {dataset.title}
+                        </DropdownMenuSubTrigger>
+                        <DropdownMenuSubContent className="rounded-none border-2 border-white bg-black text-white font-mono">
+                            <DropdownMenuItem
+                                onSelect={() =>
+                                    downloadFile(
+                                        `${prefix}-${dataset.name}.csv`,
+                                        toCsv(dataset),
+                                        'text/csv'
+                                    )
+                                }
+                                className="rounded-none focus:bg-zinc-800 focus:text-white"
+                            >
+                                CSV
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                                onSelect={() =>
+                                    downloadFile(
+                                        `${prefix}-${dataset.name}.json`,
+                                        toJson(dataset),
+                                        'application/json'
+                                    )
+                                }
+                                className="rounded-none focus:bg-zinc-800 focus:text-white"
+                            >
+                                JSON
+                            </DropdownMenuItem>
+                        </DropdownMenuSubContent>
+                    </DropdownMenuSub>
+                ))}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
@@ -1,4 +1,6 @@
-import { type ReactNode, type ComponentProps } from 'react';
+import { useRef, type ReactNode, type ComponentProps } from 'react';
+import { DataDownload } from './DataDownload';
+import { ShareImage } from './ShareImage';
 import { cn } from '../../utils/cn';
 
 interface SectionProps extends ComponentProps<'section'> {
@@ -16,19 +18,43 @@ export function Section({
     containerClassName,
     ...props
 }: SectionProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+
     return (
-        <section className={cn('py-12 md:py-20 px-4', className)} {...props}>
+        <section
+            className={cn('py-12 md:py-20 px-4 scroll-mt-24', className)}
+            {...props}
+        >
             <div
+                ref={containerRef}
                 className={cn(
                     'max-w-7xl mx-auto border-2 border-white p-8 md:p-12 relative bg-zinc-950 neo-shadow',
                     containerClassName
                 )}
             >
                 {(title || subtitle) && (
-                    <div className="mb-12 border-b-2 border-dashed border-zinc-800 pb-8">
+                    <div
+                        data-share-exclude
+                        className="mb-12 border-b-2 border-dashed border-zinc-800 pb-8"
+                    >
                         {title ? (
-                            <div className="inline-block px-4 py-1 mb-4 bg-white text-black font-mono text-sm font-bold uppercase tracking-wider">
-                                {props.id || 'Section'}
+                            <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+                                <div className="inline-block px-4 py-1 bg-white text-black font-mono text-sm font-bold uppercase tracking-wider">
+                                    {props.id || 'Section'}
+                                </div>
+                                {props.id ? (
+                                    <div className="flex flex-wrap gap-2">
+                                        <ShareImage
+                                            containerRef={containerRef}
+                                            section={props.id}
+                                            title={title}
+                                        />
+                                        <DataDownload
+                                            section={props.id}
+                                            title={title}
+                                        />
+                                    </div>
+                                ) : null}
                             </div>
                         ) : null}
                         {title ? (
@@ -0,0 +1,191 @@
+import { useState, type RefObject } from 'react';
+import { Share2 } from 'lucide-react';
+
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuGroup,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSub,
+    DropdownMenuSubContent,
+    DropdownMenuSubTrigger,
+    DropdownMenuTrigger
+} from './dropdown-menu';
+import { useReport } from '../../hooks/use-report';
+import { downloadFile } from '../../utils/open-data';
+import {
+    SHARE_SIZES,
+    captureCard,
+    captureElement,
+    composeShareSvg,
+    shareSvgToPng,
+    type ShareFormat,
+    type ShareSize
+} from '../../utils/share-image';
+
+interface ShareTarget {
+    title: string;
+    element: HTMLElement;
+    /** The whole container, as opposed to one of its cards */
+    isWhole: boolean;
+}
+
+/**
+ * The whole container, then every card in it: cards that name themselves
+ * with `data-share-title` (stat cards) and cards titled by a heading, which
+ * is how each chart is titled on the page.
+ */
+function findTargets(container: HTMLElement, title: string): ShareTarget[] {
+    const cards = [
+        ...container.querySelectorAll<HTMLElement>('[data-share-title], h3')
+    ].flatMap(node => {
+        const shareTitle = node.dataset.shareTitle;
+        if (shareTitle) {
+            return [{ title: shareTitle, element: node, isWhole: false }];
+        }
+        return node.tagName === 'H3' && node.parentElement
+            ? [
+                  {
+                      title: node.textContent?.trim() || title,
+                      element: node.parentElement,
+                      isWhole: false
+                  }
+              ]
+            : [];
+    });
+    return [{ title, element: container, isWhole: true }, ...cards];
+}
+
+const slugify = (text: string) =>
+    text
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '');
+
+interface ShareImageProps {
+    /** What the whole-container image shows */
+    containerRef: RefObject<HTMLElement | null>;
+    title: string;
+    /** Section to link back to; the report itself when omitted */
+    section?: string;
+    /** Menu label of the whole-container image */
+    wholeLabel?: string;
+}
+
+/** "Share image" menu that renders a section, chart or stat for social posts */
+export function ShareImage({
+    containerRef,
+    title,
+    section,
+    wholeLabel = 'Whole section'
+}: ShareImageProps) {
+    const { year } = useReport();
+    const [targets, setTargets] = useState<ShareTarget[]>([]);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Charts render on the client, so look them up when the menu opens
+    const onOpenChange = (open: boolean) => {
+        if (!open) return;
+        setError(null);
+        setTargets(
+            containerRef.current ? findTargets(containerRef.current, title) : []
+        );
+    };
+
+    const share = async (
+        target: ShareTarget,
+        size: ShareSize,
+        format: ShareFormat
+    ) => {
+        setBusy(true);
+        try {
+            const content = target.isWhole
+                ? await captureElement(target.element, format)
+                : await captureCard(target.element, format);
+            const svg = composeShareSvg({
+                size,
+                year,
+                section,
+                title: target.title,
+                content
+            });
+            const fileName = `state-of-hack-night-${year}-${slugify(target.title)}-${size.id}.${format}`;
+            if (format === 'svg') {
+                downloadFile(fileName, svg, 'image/svg+xml');
+            } else {
+                downloadFile(
+                    fileName,
+                    await shareSvgToPng(svg, size),
+                    'image/png'
+                );
+            }
+        } catch (err) {
+            console.error('Error rendering the share image:', err);
+            setError(
+                `Could not render the ${format.toUpperCase()} image. Try again, or try the other format.`
+            );
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-col items-end gap-1">
+            <DropdownMenu onOpenChange={onOpenChange}>
+                <DropdownMenuTrigger
+                    disabled={busy}
+                    className="inline-flex items-center gap-2 px-3 py-1 border-2 border-white bg-black text-white font-mono text-sm font-bold uppercase tracking-wider hover:bg-zinc-800 transition-all disabled:opacity-50"
+                >
+                    <Share2 className="size-4" />
+                    {busy ? 'Rendering…' : 'Share image'}
+                </DropdownMenuTrigger>
+                <DropdownMenuContent
+                    align="end"
+                    className="rounded-none border-2 border-white bg-black text-white font-mono"
+                >
+                    {targets.map((target, idx) => (
+                        <DropdownMenuSub key={`${idx}-${target.title}`}>
+                            <DropdownMenuSubTrigger className="rounded-none focus:bg-zinc-800 data-[state=open]:bg-zinc-800">
+                                {target.isWhole ? wholeLabel : target.title}
+                            </DropdownMenuSubTrigger>
+                            <DropdownMenuSubContent className="rounded-none border-2 border-white bg-black text-white font-mono">
+                                {SHARE_SIZES.map(size => (
+                                    <DropdownMenuGroup key={size.id}>
+                                        <DropdownMenuLabel className="text-xs uppercase text-zinc-400">
+                                            {size.label} · {size.width}×
+                                            {size.height}
+                                        </DropdownMenuLabel>
+                                        {(['png', 'svg'] as const).map(
+                                            format => (
+                                                <DropdownMenuItem
+                                                    key={format}
+                                                    onSelect={() =>
+                                                        share(
+                                                            target,
+                                                            size,
+                                                            format
+                                                        )
+                                                    }
+                                                    className="rounded-none focus:bg-zinc-800 focus:text-white"
+                                                >
+                                                    {format.toUpperCase()}
+                                                </DropdownMenuItem>
+                                            )
+                                        )}
+                                    </DropdownMenuGroup>
+                                ))}
+                            </DropdownMenuSubContent>
+                        </DropdownMenuSub>
+                    ))}
+                </DropdownMenuContent>
+            </DropdownMenu>
+            {error && (
+                <p role="alert" className="font-mono text-xs text-red-400">
+                    {error}
+                </p>
+            )}
+        </div>
+    );
+}
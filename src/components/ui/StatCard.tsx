@@ -1,7 +1,15 @@
 import { type ReactNode } from 'react';
+import { ArrowDownRight, ArrowUpRight, Minus } from 'lucide-react';
 import { cn } from '../../utils/cn';
 import { NeoCard } from './NeoCard';
 
+interface StatComparison {
+    current: number;
+    previous: number;
+    /** What the delta is measured against, e.g. `vs 2024` */
+    label: string;
+}
+
 interface StatCardProps {
     label: string;
     value: string | number;
@@ -9,6 +17,7 @@ interface StatCardProps {
     className?: string;
     subtext?: string;
     variant?: 'default' | 'cyan' | 'magenta' | 'yellow';
+    comparison?: StatComparison;
 }
 
 export function StatCard({
@@ -17,10 +26,12 @@ export function StatCard({
     icon,
     className,
     subtext,
-    variant = 'default'
+    variant = 'default',
+    comparison
 }: StatCardProps) {
     return (
         <NeoCard
+            data-share-title={label}
             variant={variant}
             className={cn('flex flex-col gap-2', className)}
         >
@@ -38,6 +49,30 @@ export function StatCard({
                     {subtext}
                 </div>
             )}
+            {comparison && <StatDelta {...comparison} />}
         </NeoCard>
     );
 }
+
+function StatDelta({ current, previous, label }: StatComparison) {
+    const change = current - previous;
+    const Icon =
+        change > 0 ? ArrowUpRight : change < 0 ? ArrowDownRight : Minus;
+
+    return (
+        <div
+            className={cn(
+                'flex items-center gap-1 text-sm font-bold font-mono',
+                change > 0 && 'text-[#00d492]',
+                change < 0 && 'text-red-400',
+                change === 0 && 'text-zinc-500'
+            )}
+        >
+            <Icon className="size-4" />
+            {previous === 0
+                ? 'new'
+                : `${change > 0 ? '+' : ''}${((change / previous) * 100).toFixed(1)}%`}
+            <span className="font-normal text-zinc-500">{label}</span>
+        </div>
+    );
+}
@@ -0,0 +1,117 @@
+import { layers, namedFlavor } from '@protomaps/basemaps';
+import MapLibreGL from 'maplibre-gl';
+import { Protocol } from 'pmtiles';
+import { feature } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import worldTopology from 'world-atlas/countries-110m.json';
+
+/** Where the map's base layer comes from */
+export type MapBasemap =
+    /** Carto's hosted dark-matter vector tiles */
+    | { provider: 'carto' }
+    /** A self-hosted Protomaps archive, drawn over a bundled world layer */
+    | {
+          provider: 'pmtiles';
+          /** URL of the `.pmtiles` archive, e.g. `/tiles/south-florida.pmtiles` */
+          url: string;
+          /** Glyph URL template; only needed by layers that draw text */
+          glyphs?: string;
+      }
+    /** No WebGL map at all; the caller's SVG fallback is drawn instead */
+    | { provider: 'outline' };
+
+const CARTO_DARK_STYLE =
+    'https://basemaps.cartocdn.com/gl/dark-matter-gl-style/style.json';
+
+const PROTOMAPS_SOURCE = 'protomaps';
+
+const flavor = namedFlavor('dark');
+
+/** Language of the place labels, when glyphs are configured */
+const LABEL_LANGUAGE = 'en';
+
+let pmtilesRegistered = false;
+
+function registerPmtilesProtocol() {
+    if (pmtilesRegistered) return;
+    MapLibreGL.addProtocol('pmtiles', new Protocol().tile);
+    pmtilesRegistered = true;
+}
+
+/** Country outlines bundled from `world-atlas`, for zooms the archive lacks */
+function worldCountries() {
+    const world = worldTopology as unknown as Topology<{
+        countries: GeometryCollection;
+    }>;
+    return feature(world, world.objects.countries);
+}
+
+function pmtilesStyle(
+    url: string,
+    glyphs?: string
+): MapLibreGL.StyleSpecification {
+    registerPmtilesProtocol();
+
+    return {
+        version: 8,
+        ...(glyphs && { glyphs }),
+        sources: {
+            world: { type: 'geojson', data: worldCountries() },
+            [PROTOMAPS_SOURCE]: {
+                type: 'vector',
+                url: `pmtiles://${new URL(url, window.location.href)}`,
+                attribution:
+                    '<a href="https://protomaps.com">Protomaps</a> © <a href="https://openstreetmap.org">OpenStreetMap</a>'
+            }
+        },
+        layers: [
+            {
+                id: 'background',
+                type: 'background',
+                paint: { 'background-color': flavor.background }
+            },
+            {
+                id: 'world-land',
+                type: 'fill',
+                source: 'world',
+                paint: { 'fill-color': flavor.earth }
+            },
+            {
+                id: 'world-boundaries',
+                type: 'line',
+                source: 'world',
+                paint: { 'line-color': flavor.boundaries, 'line-width': 0.5 }
+            },
+            // The archive only covers its own extract; the world layer above
+            // shows through everywhere else. Without `lang` there are no
+            // label layers, and labels cannot be drawn without glyphs
+            ...layers(
+                PROTOMAPS_SOURCE,
+                flavor,
+                glyphs ? { lang: LABEL_LANGUAGE } : undefined
+            ).filter(layer => layer.type !== 'background')
+        ]
+    } as MapLibreGL.StyleSpecification;
+}
+
+/** MapLibre style for a basemap; `outline` has none */
+export function basemapStyle(basemap: MapBasemap) {
+    switch (basemap.provider) {
+        case 'carto':
+            return CARTO_DARK_STYLE;
+        case 'pmtiles':
+            return pmtilesStyle(basemap.url, basemap.glyphs);
+        case 'outline':
+            return null;
+    }
+}
+
+/** MapLibre needs WebGL; without it the map falls back to SVG */
+export function supportsWebGL() {
+    try {
+        const canvas = document.createElement('canvas');
+        return !!(canvas.getContext('webgl2') ?? canvas.getContext('webgl'));
+    } catch {
+        return false;
+    }
+}
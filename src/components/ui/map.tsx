@@ -19,21 +19,24 @@ import { createPortal } from 'react-dom';
 import { cn } from '@/utils/cn';
 import React from 'react';
 import { MapContext, useMap } from './map-context';
+import { basemapStyle, supportsWebGL, type MapBasemap } from './map-basemaps';
 
-const defaultStyles = {
-    dark: 'https://basemaps.cartocdn.com/gl/dark-matter-gl-style/style.json',
-    light: 'https://basemaps.cartocdn.com/gl/positron-gl-style/style.json'
-};
+const defaultBasemap: MapBasemap = { provider: 'carto' };
 
 type MapStyleOption = string | MapLibreGL.StyleSpecification;
 
 type MapProps = {
     children?: ReactNode;
-    /** Custom map styles for light and dark themes. Overrides the default Carto styles. */
+    /** Custom map styles for light and dark themes. Overrides the basemap. */
     styles?: {
         light?: MapStyleOption;
         dark?: MapStyleOption;
     };
+    /** Base layer provider (default: Carto). Pass a stable object; a new one restyles the map. */
+    basemap?: MapBasemap;
+    /** Rendered instead of the map without WebGL, for the `outline` basemap, or when the style or tiles fail before the first load */
+    fallback?: ReactNode;
+    onError?: (error: MapLibreGL.ErrorEvent['error']) => void;
     onLoad?: (map: MapLibreGL.Map) => void;
     onMove?: (map: MapLibreGL.Map) => void;
     onMoveEnd?: (map: MapLibreGL.Map) => void;
@@ -52,10 +55,24 @@ const DefaultLoader = () => (
 );
 
 const Map = forwardRef<MapRef, MapProps>(function Map(
-    { children, styles, onLoad, onMove, onMoveEnd, ...props },
+    {
+        children,
+        styles,
+        basemap = defaultBasemap,
+        fallback,
+        onError,
+        onLoad,
+        onMove,
+        onMoveEnd,
+        ...props
+    },
     ref
 ) {
     const containerRef = useRef<HTMLDivElement>(null);
+    const defaultStyle = useMemo(() => basemapStyle(basemap), [basemap]);
+    const [failed, setFailed] = useState(
+        () => (!styles?.dark && !defaultStyle) || !supportsWebGL()
+    );
     const [mapInstance, setMapInstance] = useState<MapLibreGL.Map | null>(null);
     const [isLoaded, setIsLoaded] = useState(false);
     const [isStyleLoaded, setIsStyleLoaded] = useState(false);
@@ -63,14 +80,11 @@ const Map = forwardRef<MapRef, MapProps>(function Map(
     const resolvedTheme = 'dark';
     const currentStyleRef = useRef<MapStyleOption | null>(null);
 
-    const mapStyles = useMemo(
-        () => ({
-            dark: styles?.dark ?? defaultStyles.dark,
-            // Light style is ignored/mapped to dark in this forced-dark version
-            light: styles?.dark ?? defaultStyles.dark
-        }),
-        [styles]
-    );
+    const mapStyles = useMemo(() => {
+        const style = styles?.dark ?? defaultStyle ?? '';
+        // Light style is ignored/mapped to dark in this forced-dark version
+        return { dark: style, light: style };
+    }, [styles, defaultStyle]);
 
     useImperativeHandle(ref, () => mapInstance as MapLibreGL.Map, [
         mapInstance
@@ -93,14 +107,24 @@ const Map = forwardRef<MapRef, MapProps>(function Map(
             ...props
         });
 
+        let hasLoaded = false;
         const styleDataHandler = () => setIsStyleLoaded(true);
         const loadHandler = () => {
+            hasLoaded = true;
             setIsLoaded(true);
             onLoad?.(map);
         };
+        // A style or tile source that cannot be reached before the first
+        // load means there is no basemap to show; later errors (a missing
+        // tile here and there) are only reported
+        const errorHandler = (e: MapLibreGL.ErrorEvent) => {
+            onError?.(e.error);
+            if (!hasLoaded) setFailed(true);
+        };
 
         map.on('load', loadHandler);
         map.on('styledata', styleDataHandler);
+        map.on('error', errorHandler);
         if (onMove) map.on('move', () => onMove(map));
         if (onMoveEnd) map.on('moveend', () => onMoveEnd(map));
 
@@ -109,6 +133,7 @@ const Map = forwardRef<MapRef, MapProps>(function Map(
         return () => {
             map.off('load', loadHandler);
             map.off('styledata', styleDataHandler);
+            map.off('error', errorHandler);
             map.remove();
             setIsLoaded(false);
             setIsStyleLoaded(false);
@@ -145,6 +170,10 @@ const Map = forwardRef<MapRef, MapProps>(function Map(
         [mapInstance, isLoaded, isStyleLoaded]
     );
 
+    if (failed && fallback) {
+        return <>{fallback}</>;
+    }
+
     return (
         <MapContext.Provider value={contextValue}>
             <div ref={containerRef} className="relative w-full h-full">
@@ -543,6 +572,19 @@ type MapControlsProps = {
     className?: string;
     /** Callback with user coordinates when located */
     onLocate?: (coords: { longitude: number; latitude: number }) => void;
+    /** Mutually exclusive layers to switch between; shows a switcher when set */
+    layers?: MapControlLayer[];
+    /** Id of the layer currently shown */
+    activeLayer?: string;
+    /** Callback when a layer is picked in the switcher */
+    onLayerChange?: (id: string) => void;
+};
+
+type MapControlLayer = {
+    id: string;
+    /** Accessible name, also shown as the button's tooltip */
+    label: string;
+    icon: React.ReactNode;
 };
 
 const positionClasses = {
@@ -564,20 +606,27 @@ function ControlButton({
     onClick,
     label,
     children,
-    disabled = false
+    disabled = false,
+    pressed
 }: {
     onClick: () => void;
     label: string;
     children: React.ReactNode;
     disabled?: boolean;
+    /** Toggle state, for buttons that switch something on or off */
+    pressed?: boolean;
 }) {
     return (
         <button
             onClick={onClick}
             aria-label={label}
+            aria-pressed={pressed}
+            title={pressed === undefined ? undefined : label}
             type="button"
             className={cn(
                 'flex items-center justify-center size-8 hover:bg-accent dark:hover:bg-accent/40 transition-colors',
+                pressed &&
+                    'bg-primary text-primary-foreground hover:bg-primary',
                 disabled && 'opacity-50 pointer-events-none cursor-not-allowed'
             )}
             disabled={disabled}
@@ -594,7 +643,10 @@ function MapControls({
     showLocate = false,
     showFullscreen = false,
     className,
-    onLocate
+    onLocate,
+    layers,
+    activeLayer,
+    onLayerChange
 }: MapControlsProps) {
     const { map, isLoaded } = useMap();
     const [waitingForLocation, setWaitingForLocation] = useState(false);
@@ -656,6 +708,20 @@ function MapControls({
                 className
             )}
         >
+            {layers && layers.length > 0 && (
+                <ControlGroup>
+                    {layers.map(layer => (
+                        <ControlButton
+                            key={layer.id}
+                            onClick={() => onLayerChange?.(layer.id)}
+                            label={layer.label}
+                            pressed={layer.id === activeLayer}
+                        >
+                            {layer.icon}
+                        </ControlButton>
+                    ))}
+                </ControlGroup>
+            )}
             {showZoom && (
                 <ControlGroup>
                     <ControlButton onClick={handleZoomIn} label="Zoom in">
@@ -1011,6 +1077,8 @@ type MapClusterLayerProps<
     clusterThresholds?: [number, number];
     /** Color for unclustered individual points (default: "#3b82f6") */
     pointColor?: string;
+    /** Radius of unclustered points in pixels, or an expression sizing each by its properties (default: 6) */
+    pointRadius?: MapLibreGL.DataDrivenPropertyValueSpecification<number>;
     /** Callback when an unclustered point is clicked */
     onPointClick?: (
         feature: GeoJSON.Feature<GeoJSON.Point, P>,
@@ -1022,6 +1090,20 @@ type MapClusterLayerProps<
         coordinates: [number, number],
         pointCount: number
     ) => void;
+    /** Callback when the pointer moves onto a cluster, with the points in it, or off it (null) */
+    onClusterHover?: (cluster: MapClusterHover<P> | null) => void;
+    /** Callback when the pointer moves onto an unclustered point, or off it (null) */
+    onPointHover?: (feature: GeoJSON.Feature<GeoJSON.Point, P> | null) => void;
+};
+
+type MapClusterHover<
+    P extends GeoJSON.GeoJsonProperties = GeoJSON.GeoJsonProperties
+> = {
+    clusterId: number;
+    coordinates: [number, number];
+    pointCount: number;
+    /** Every point in the cluster */
+    leaves: GeoJSON.Feature<GeoJSON.Point, P>[];
 };
 
 function MapClusterLayer<
@@ -1033,8 +1115,11 @@ function MapClusterLayer<
     clusterColors = ['#51bbd6', '#f1f075', '#f28cb1'],
     clusterThresholds = [100, 750],
     pointColor = '#3b82f6',
+    pointRadius = 6,
     onPointClick,
-    onClusterClick
+    onClusterClick,
+    onClusterHover,
+    onPointHover
 }: MapClusterLayerProps<P>) {
     const { map, isLoaded } = useMap();
     const id = useId();
@@ -1046,7 +1131,8 @@ function MapClusterLayer<
     const stylePropsRef = useRef({
         clusterColors,
         clusterThresholds,
-        pointColor
+        pointColor,
+        pointRadius
     });
 
     // Add source and layers on mount
@@ -1090,20 +1176,23 @@ function MapClusterLayer<
             }
         });
 
-        // Add cluster count text layer
-        map.addLayer({
-            id: clusterCountLayerId,
-            type: 'symbol',
-            source: sourceId,
-            filter: ['has', 'point_count'],
-            layout: {
-                'text-field': '{point_count_abbreviated}',
-                'text-size': 12
-            },
-            paint: {
-                'text-color': '#fff'
-            }
-        });
+        // Add cluster count text layer; text needs the style to have glyphs,
+        // which self-hosted basemaps may leave out
+        if (map.getStyle().glyphs) {
+            map.addLayer({
+                id: clusterCountLayerId,
+                type: 'symbol',
+                source: sourceId,
+                filter: ['has', 'point_count'],
+                layout: {
+                    'text-field': '{point_count_abbreviated}',
+                    'text-size': 12
+                },
+                paint: {
+                    'text-color': '#fff'
+                }
+            });
+        }
 
         // Add unclustered point layer
         map.addLayer({
@@ -1113,7 +1202,7 @@ function MapClusterLayer<
             filter: ['!', ['has', 'point_count']],
             paint: {
                 'circle-color': pointColor,
-                'circle-radius': 6
+                'circle-radius': pointRadius
             }
         });
 
@@ -1174,7 +1263,7 @@ function MapClusterLayer<
             ]);
         }
 
-        // Update unclustered point layer color
+        // Update unclustered point layer color and size
         if (
             map.getLayer(unclusteredLayerId) &&
             prev.pointColor !== pointColor
@@ -1185,11 +1274,22 @@ function MapClusterLayer<
                 pointColor
             );
         }
+        if (
+            map.getLayer(unclusteredLayerId) &&
+            prev.pointRadius !== pointRadius
+        ) {
+            map.setPaintProperty(
+                unclusteredLayerId,
+                'circle-radius',
+                pointRadius
+            );
+        }
 
         stylePropsRef.current = {
             clusterColors,
             clusterThresholds,
-            pointColor
+            pointColor,
+            pointRadius
         };
     }, [
         isLoaded,
@@ -1198,7 +1298,8 @@ function MapClusterLayer<
         unclusteredLayerId,
         clusterColors,
         clusterThresholds,
-        pointColor
+        pointColor,
+        pointRadius
     ]);
 
     // Handle click events
@@ -1302,13 +1403,475 @@ function MapClusterLayer<
         onPointClick
     ]);
 
+    // Handle hover events
+    useEffect(() => {
+        if (!isLoaded || !map || (!onClusterHover && !onPointHover)) return;
+
+        // Leaves are fetched asynchronously; drop the answer if the pointer
+        // has moved on by the time it arrives
+        let hoveredClusterId: number | null = null;
+
+        const handleClusterMove = async (
+            e: MapLibreGL.MapMouseEvent & {
+                features?: MapLibreGL.MapGeoJSONFeature[];
+            }
+        ) => {
+            const feature = e.features?.[0];
+            if (!feature || !onClusterHover) return;
+
+            const clusterId = feature.properties?.cluster_id as number;
+            if (clusterId === hoveredClusterId) return;
+            hoveredClusterId = clusterId;
+
+            const pointCount = feature.properties?.point_count as number;
+            const coordinates = (feature.geometry as GeoJSON.Point)
+                .coordinates as [number, number];
+            const source = map.getSource(sourceId) as MapLibreGL.GeoJSONSource;
+            let leaves: GeoJSON.Feature[];
+            try {
+                leaves = await source.getClusterLeaves(
+                    clusterId,
+                    pointCount,
+                    0
+                );
+            } catch {
+                // The data changed under the pointer (e.g. the time-lapse
+                // moved on) and the cluster no longer exists
+                if (hoveredClusterId === clusterId) hoveredClusterId = null;
+                return;
+            }
+
+            if (hoveredClusterId !== clusterId) return;
+            onClusterHover({
+                clusterId,
+                coordinates,
+                pointCount,
+                leaves: leaves as unknown as GeoJSON.Feature<GeoJSON.Point, P>[]
+            });
+        };
+        const handleClusterLeave = () => {
+            hoveredClusterId = null;
+            onClusterHover?.(null);
+        };
+
+        const handlePointMove = (
+            e: MapLibreGL.MapMouseEvent & {
+                features?: MapLibreGL.MapGeoJSONFeature[];
+            }
+        ) => {
+            const feature = e.features?.[0];
+            if (!feature) return;
+            onPointHover?.(
+                feature as unknown as GeoJSON.Feature<GeoJSON.Point, P>
+            );
+        };
+        const handlePointLeave = () => {
+            onPointHover?.(null);
+        };
+
+        map.on('mousemove', clusterLayerId, handleClusterMove);
+        map.on('mouseleave', clusterLayerId, handleClusterLeave);
+        map.on('mousemove', unclusteredLayerId, handlePointMove);
+        map.on('mouseleave', unclusteredLayerId, handlePointLeave);
+
+        return () => {
+            map.off('mousemove', clusterLayerId, handleClusterMove);
+            map.off('mouseleave', clusterLayerId, handleClusterLeave);
+            map.off('mousemove', unclusteredLayerId, handlePointMove);
+            map.off('mouseleave', unclusteredLayerId, handlePointLeave);
+        };
+    }, [
+        isLoaded,
+        map,
+        clusterLayerId,
+        unclusteredLayerId,
+        sourceId,
+        onClusterHover,
+        onPointHover
+    ]);
+
+    return null;
+}
+
+type MapHeatmapLayerProps<
+    P extends GeoJSON.GeoJsonProperties = GeoJSON.GeoJsonProperties
+> = {
+    /** Optional unique identifier for the layer */
+    id?: string;
+    /** Points to aggregate */
+    data: GeoJSON.FeatureCollection<GeoJSON.Point, P>;
+    /** Feature property each point is weighted by (default: every point weighs 1) */
+    weightProperty?: string;
+    /** Weight at which a point counts fully (default: the largest weight in data) */
+    maxWeight?: number;
+    /** Color ramp from no density to the densest spot; the first should be transparent */
+    colors?: string[];
+    /** Blur radius in pixels at zoom 0 and at `maxZoom` (default: [4, 40]) */
+    radius?: [number, number];
+    /** Intensity multiplier at zoom 0 and at `maxZoom` (default: [0.6, 3]) */
+    intensity?: [number, number];
+    /** Layer opacity from 0 to 1 (default: 0.85) */
+    opacity?: number;
+    /** Zoom level radius and intensity scale up to (default: 15) */
+    maxZoom?: number;
+};
+
+function MapHeatmapLayer<
+    P extends GeoJSON.GeoJsonProperties = GeoJSON.GeoJsonProperties
+>({
+    id: propId,
+    data,
+    weightProperty,
+    maxWeight,
+    colors = [
+        'rgba(0, 212, 146, 0)',
+        'rgba(0, 212, 146, 0.35)',
+        '#00d492',
+        '#a7f3d0',
+        '#ffffff'
+    ],
+    radius = [4, 40],
+    intensity = [0.6, 3],
+    opacity = 0.85,
+    maxZoom = 15
+}: MapHeatmapLayerProps<P>) {
+    const { map, isLoaded } = useMap();
+    const autoId = useId();
+    const id = propId ?? autoId;
+    const sourceId = `heatmap-source-${id}`;
+    const layerId = `heatmap-layer-${id}`;
+
+    const max = useMemo(() => {
+        if (maxWeight !== undefined) return maxWeight;
+        if (!weightProperty) return 1;
+        return Math.max(
+            1,
+            ...data.features.map(
+                f => Number(f.properties?.[weightProperty]) || 0
+            )
+        );
+    }, [data, maxWeight, weightProperty]);
+
+    // Heavier points glow more, up to `max`
+    const weight = useMemo(
+        (): MapLibreGL.DataDrivenPropertyValueSpecification<number> =>
+            weightProperty
+                ? [
+                      'interpolate',
+                      ['linear'],
+                      ['coalesce', ['get', weightProperty], 0],
+                      0,
+                      0,
+                      max,
+                      1
+                  ]
+                : 1,
+        [weightProperty, max]
+    );
+
+    // Colors spread evenly over the density range
+    const color = useMemo(
+        (): MapLibreGL.ExpressionSpecification => [
+            'interpolate',
+            ['linear'],
+            ['heatmap-density'],
+            ...colors.flatMap((c, idx) => [idx / (colors.length - 1), c])
+        ],
+        [colors]
+    );
+
+    // Zoomed out, points sit close together and need less help to show;
+    // zoomed in, they spread apart and need a wider, stronger glow
+    const zoomRamp = useCallback(
+        ([low, high]: [number, number]): MapLibreGL.ExpressionSpecification => [
+            'interpolate',
+            ['linear'],
+            ['zoom'],
+            0,
+            low,
+            maxZoom,
+            high
+        ],
+        [maxZoom]
+    );
+
+    // Add source and layer on mount
+    useEffect(() => {
+        if (!isLoaded || !map) return;
+
+        map.addSource(sourceId, { type: 'geojson', data });
+
+        map.addLayer({
+            id: layerId,
+            type: 'heatmap',
+            source: sourceId,
+            paint: {
+                'heatmap-weight': weight,
+                'heatmap-color': color,
+                'heatmap-radius': zoomRamp(radius),
+                'heatmap-intensity': zoomRamp(intensity),
+                'heatmap-opacity': opacity
+            }
+        });
+
+        return () => {
+            try {
+                if (map.getLayer(layerId)) map.removeLayer(layerId);
+                if (map.getSource(sourceId)) map.removeSource(sourceId);
+            } catch {
+                // ignore
+            }
+        };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isLoaded, map, sourceId]);
+
+    // Update source data when data prop changes
+    useEffect(() => {
+        if (!isLoaded || !map) return;
+
+        const source = map.getSource(sourceId) as MapLibreGL.GeoJSONSource;
+        if (source) {
+            source.setData(data);
+        }
+    }, [isLoaded, map, data, sourceId]);
+
+    // Update layer styles when props change
+    useEffect(() => {
+        if (!isLoaded || !map || !map.getLayer(layerId)) return;
+
+        map.setPaintProperty(layerId, 'heatmap-weight', weight);
+        map.setPaintProperty(layerId, 'heatmap-color', color);
+        map.setPaintProperty(layerId, 'heatmap-radius', zoomRamp(radius));
+        map.setPaintProperty(layerId, 'heatmap-intensity', zoomRamp(intensity));
+        map.setPaintProperty(layerId, 'heatmap-opacity', opacity);
+    }, [
+        isLoaded,
+        map,
+        layerId,
+        weight,
+        color,
+        zoomRamp,
+        radius,
+        intensity,
+        opacity
+    ]);
+
+    return null;
+}
+
+type MapChoroplethLayerProps<
+    P extends GeoJSON.GeoJsonProperties = GeoJSON.GeoJsonProperties
+> = {
+    /** Optional unique identifier for the layer */
+    id?: string;
+    /** Polygons to shade, each carrying a numeric value property */
+    data: GeoJSON.FeatureCollection<GeoJSON.Polygon | GeoJSON.MultiPolygon, P>;
+    /** Feature property the fill is scaled by (default: "value") */
+    valueProperty?: string;
+    /** Fill colors for the smallest and largest values (default: ["#0b3b2e", "#00d492"]) */
+    colors?: [string, string];
+    /** Value at which the fill reaches the second color (default: the largest value in data) */
+    maxValue?: number;
+    /** Fill opacity from 0 to 1 (default: 0.75) */
+    fillOpacity?: number;
+    /** Outline color as CSS color value (default: "#3f3f46") */
+    outlineColor?: string;
+    /** Zoom level at which the layer appears (default: 0) */
+    minZoom?: number;
+    /** Zoom level at which the layer disappears (default: 24) */
+    maxZoom?: number;
+    /** Callback when the pointer moves onto a polygon, or off all of them (null) */
+    onFeatureHover?: (
+        feature: GeoJSON.Feature<
+            GeoJSON.Polygon | GeoJSON.MultiPolygon,
+            P
+        > | null
+    ) => void;
+    /** Callback when a polygon is clicked */
+    onFeatureClick?: (
+        feature: GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon, P>
+    ) => void;
+};
+
+function MapChoroplethLayer<
+    P extends GeoJSON.GeoJsonProperties = GeoJSON.GeoJsonProperties
+>({
+    id: propId,
+    data,
+    valueProperty = 'value',
+    colors = ['#0b3b2e', '#00d492'],
+    maxValue,
+    fillOpacity = 0.75,
+    outlineColor = '#3f3f46',
+    minZoom = 0,
+    maxZoom = 24,
+    onFeatureHover,
+    onFeatureClick
+}: MapChoroplethLayerProps<P>) {
+    const { map, isLoaded } = useMap();
+    const autoId = useId();
+    const id = propId ?? autoId;
+    const sourceId = `choropleth-source-${id}`;
+    const fillLayerId = `choropleth-fill-${id}`;
+    const outlineLayerId = `choropleth-outline-${id}`;
+
+    const max = useMemo(() => {
+        if (maxValue !== undefined) return maxValue;
+        return Math.max(
+            1,
+            ...data.features.map(
+                f => Number(f.properties?.[valueProperty]) || 0
+            )
+        );
+    }, [data, maxValue, valueProperty]);
+
+    // Polygons without a value stay unfilled; the rest scale from low to high
+    const fillColor = useMemo(
+        (): MapLibreGL.ExpressionSpecification => [
+            'case',
+            ['>', ['coalesce', ['get', valueProperty], 0], 0],
+            [
+                'interpolate',
+                ['linear'],
+                ['get', valueProperty],
+                0,
+                colors[0],
+                max,
+                colors[1]
+            ],
+            'rgba(0, 0, 0, 0)'
+        ],
+        [valueProperty, colors, max]
+    );
+
+    // Add source and layers on mount
+    useEffect(() => {
+        if (!isLoaded || !map) return;
+
+        map.addSource(sourceId, { type: 'geojson', data });
+
+        map.addLayer({
+            id: fillLayerId,
+            type: 'fill',
+            source: sourceId,
+            minzoom: minZoom,
+            maxzoom: maxZoom,
+            paint: {
+                'fill-color': fillColor,
+                'fill-opacity': fillOpacity
+            }
+        });
+
+        map.addLayer({
+            id: outlineLayerId,
+            type: 'line',
+            source: sourceId,
+            minzoom: minZoom,
+            maxzoom: maxZoom,
+            paint: {
+                'line-color': outlineColor,
+                'line-width': 1
+            }
+        });
+
+        return () => {
+            try {
+                if (map.getLayer(outlineLayerId))
+                    map.removeLayer(outlineLayerId);
+                if (map.getLayer(fillLayerId)) map.removeLayer(fillLayerId);
+                if (map.getSource(sourceId)) map.removeSource(sourceId);
+            } catch {
+                // ignore
+            }
+        };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isLoaded, map, sourceId]);
+
+    // Update source data when data prop changes
+    useEffect(() => {
+        if (!isLoaded || !map) return;
+
+        const source = map.getSource(sourceId) as MapLibreGL.GeoJSONSource;
+        if (source) {
+            source.setData(data);
+        }
+    }, [isLoaded, map, data, sourceId]);
+
+    // Update layer styles when props change
+    useEffect(() => {
+        if (!isLoaded || !map || !map.getLayer(fillLayerId)) return;
+
+        map.setPaintProperty(fillLayerId, 'fill-color', fillColor);
+        map.setPaintProperty(fillLayerId, 'fill-opacity', fillOpacity);
+        map.setPaintProperty(outlineLayerId, 'line-color', outlineColor);
+        map.setLayerZoomRange(fillLayerId, minZoom, maxZoom);
+        map.setLayerZoomRange(outlineLayerId, minZoom, maxZoom);
+    }, [
+        isLoaded,
+        map,
+        fillLayerId,
+        outlineLayerId,
+        fillColor,
+        fillOpacity,
+        outlineColor,
+        minZoom,
+        maxZoom
+    ]);
+
+    // Handle hover and click events
+    useEffect(() => {
+        if (!isLoaded || !map) return;
+
+        const toFeature = (
+            e: MapLibreGL.MapMouseEvent & {
+                features?: MapLibreGL.MapGeoJSONFeature[];
+            }
+        ) =>
+            e.features?.[0] as unknown as
+                | GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon, P>
+                | undefined;
+
+        const handleMouseMove = (
+            e: MapLibreGL.MapMouseEvent & {
+                features?: MapLibreGL.MapGeoJSONFeature[];
+            }
+        ) => {
+            if (onFeatureClick) map.getCanvas().style.cursor = 'pointer';
+            onFeatureHover?.(toFeature(e) ?? null);
+        };
+        const handleMouseLeave = () => {
+            map.getCanvas().style.cursor = '';
+            onFeatureHover?.(null);
+        };
+        const handleClick = (
+            e: MapLibreGL.MapMouseEvent & {
+                features?: MapLibreGL.MapGeoJSONFeature[];
+            }
+        ) => {
+            const feature = toFeature(e);
+            if (feature) onFeatureClick?.(feature);
+        };
+
+        map.on('mousemove', fillLayerId, handleMouseMove);
+        map.on('mouseleave', fillLayerId, handleMouseLeave);
+        map.on('click', fillLayerId, handleClick);
+
+        return () => {
+            map.off('mousemove', fillLayerId, handleMouseMove);
+            map.off('mouseleave', fillLayerId, handleMouseLeave);
+            map.off('click', fillLayerId, handleClick);
+        };
+    }, [isLoaded, map, fillLayerId, onFeatureHover, onFeatureClick]);
+
     return null;
 }
 
 export {
     Map,
+    MapChoroplethLayer,
     MapClusterLayer,
     MapControls,
+    MapHeatmapLayer,
     MapMarker,
     MapPopup,
     MapRoute,
@@ -1318,4 +1881,4 @@ export {
     MarkerTooltip
 };
 
-export type { MapRef };
+export type { MapClusterHover, MapRef };
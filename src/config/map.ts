@@ -0,0 +1,37 @@
+import type { MapBasemap } from '@/components/ui/map-basemaps';
+
+/**
+ * Basemap of the community map, picked at build time with `VITE_MAP_*`
+ * environment variables:
+ *
+ * - `VITE_MAP_BASEMAP=pmtiles` (default): a self-hosted archive at
+ *   `VITE_MAP_PMTILES_URL` (default `/tiles/south-florida.pmtiles`, the
+ *   archive `pnpm basemap` builds into `public/tiles/`), with labels only if
+ *   `VITE_MAP_GLYPHS_URL` is set
+ * - `VITE_MAP_BASEMAP=carto`: Carto's hosted tiles
+ * - `VITE_MAP_BASEMAP=outline`: the SVG outline map, no tiles or WebGL
+ */
+function resolveBasemap(): MapBasemap {
+    const env = import.meta.env;
+
+    switch (env.VITE_MAP_BASEMAP ?? 'pmtiles') {
+        case 'carto':
+            return { provider: 'carto' };
+        case 'pmtiles':
+            return {
+                provider: 'pmtiles',
+                url: env.VITE_MAP_PMTILES_URL ?? '/tiles/south-florida.pmtiles',
+                glyphs: env.VITE_MAP_GLYPHS_URL
+            };
+        case 'outline':
+            return { provider: 'outline' };
+        default:
+            throw new Error(
+                `Unknown VITE_MAP_BASEMAP "${env.VITE_MAP_BASEMAP}"; expected carto, pmtiles or outline`
+            );
+    }
+}
+
+export const mapConfig = {
+    basemap: resolveBasemap()
+};
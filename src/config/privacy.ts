@@ -0,0 +1,9 @@
+/**
+ * Privacy settings for every edition. No published count may describe fewer
+ * than `minCellSize` people: `pnpm data` merges smaller cells into "Other"
+ * or leaves them out, and the data files fail validation, and with them the
+ * build, if one slips through.
+ */
+export const privacyConfig = {
+    minCellSize: 5
+};
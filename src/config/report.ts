@@ -0,0 +1,19 @@
+/**
+ * Site-wide settings shared by every edition of the report. Anything that
+ * changes from year to year lives in `src/data/<year>/` instead, so a new
+ * edition is a data drop rather than a code change.
+ */
+export const reportConfig = {
+    organization: 'hello_miami',
+    siteName: 'State of Hack Night',
+    siteUrl: 'https://state-of-hack-night-2025.cbnsndwch.dev',
+    repositoryUrl: 'https://github.com/cbnsndwch/state_of_hack_night_2025'
+};
+
+export function reportTitle(year: number) {
+    return `${reportConfig.siteName} ${year} • ${reportConfig.organization}`;
+}
+
+export function reportDescription(year: number) {
+    return `${reportConfig.organization} Hack Night - ${year} Year in Review`;
+}
@@ -0,0 +1,39 @@
+import type { Report } from '@/data/reports';
+
+export interface ReportSection {
+    /** Element id of the section, also its URL segment (`/2025/impact`) */
+    id: string;
+    label: string;
+    /** Sections backed by optional data files are hidden without them */
+    isAvailable?: (report: Report) => boolean;
+}
+
+/** Linkable sections, in page order */
+export const reportSections: ReportSection[] = [
+    { id: 'impact', label: 'Impact' },
+    {
+        id: 'retention',
+        label: 'Retention',
+        isAvailable: report => report.retentionStats !== null
+    },
+    {
+        id: 'demographics',
+        label: 'Demographics',
+        isAvailable: report => report.demographicsStats !== null
+    },
+    { id: 'interests', label: 'Interests' },
+    {
+        id: 'building',
+        label: 'Building',
+        isAvailable: report => report.textStats !== null
+    },
+    { id: 'geography', label: 'Geography' }
+];
+
+export function availableSections(report: Report) {
+    return reportSections.filter(s => s.isAvailable?.(report) ?? true);
+}
+
+export function reportPath(year: number, section?: string) {
+    return section ? `/${year}/${section}` : `/${year}`;
+}
@@ -0,0 +1,538 @@
+import type { Report } from '@/data/reports';
+import type { NamedValue } from '@/types/stats';
+
+export type DatasetFieldType = 'string' | 'integer' | 'number';
+
+export interface DatasetField {
+    name: string;
+    type: DatasetFieldType;
+    description: string;
+}
+
+/** Null marks a count too small to publish */
+export type DatasetRow = Record<string, string | number | null>;
+
+/** One table behind a chart, ready for CSV or JSON */
+export interface Dataset {
+    /** File name stem, e.g. `roles` */
+    name: string;
+    title: string;
+    description: string;
+    fields: DatasetField[];
+    rows: DatasetRow[];
+}
+
+const MONTH_FIELD: DatasetField = {
+    name: 'month',
+    type: 'string',
+    description: 'Month, as YYYY-MM'
+};
+
+function namedValues(
+    name: string,
+    title: string,
+    description: string,
+    [label, labelDescription]: [string, string],
+    [unit, unitDescription]: [string, string],
+    values: NamedValue[]
+): Dataset {
+    return {
+        name,
+        title,
+        description,
+        fields: [
+            { name: label, type: 'string', description: labelDescription },
+            { name: unit, type: 'integer', description: unitDescription }
+        ],
+        rows: values.map(v => ({ [label]: v.name, [unit]: v.value }))
+    };
+}
+
+// Built from the parsed report only: every file in it passed the privacy
+// stage of `pnpm data` and is validated against the minimum cell size on
+// load, so a download can never hold more than the charts show
+const SECTION_DATASETS: Record<string, (report: Report) => Dataset[]> = {
+    impact: ({ growthStats, impactStats, roleSpecialityStats }) => [
+        {
+            name: 'monthly-rsvps',
+            title: 'Monthly attendance',
+            description: 'Approved RSVPs per month',
+            fields: [
+                MONTH_FIELD,
+                {
+                    name: 'rsvps',
+                    type: 'integer',
+                    description: 'Approved RSVPs'
+                }
+            ],
+            rows: growthStats.map(m => ({
+                month: m.fullRequest,
+                rsvps: m.count
+            }))
+        },
+        namedValues(
+            'roles',
+            'Builder roles',
+            'Roles picked on registration, counted per approved RSVP',
+            ['role', 'Role'],
+            ['rsvps', 'Approved RSVPs that picked the role'],
+            impactStats.roles
+        ),
+        namedValues(
+            'experience',
+            'Years of experience',
+            'Years of experience, counted per approved RSVP',
+            ['years', 'Years of experience'],
+            ['rsvps', 'Approved RSVPs with that experience'],
+            impactStats.experience
+        ),
+        ...(impactStats.specialities.length > 0
+            ? [
+                  namedValues(
+                      'specialities',
+                      'Specialities',
+                      'Specialities picked on registration, counted per approved RSVP',
+                      ['speciality', 'Speciality'],
+                      ['rsvps', 'Approved RSVPs that picked the speciality'],
+                      impactStats.specialities
+                  )
+              ]
+            : []),
+        ...(roleSpecialityStats
+            ? [
+                  {
+                      name: 'roles-by-speciality',
+                      title: 'Roles by speciality',
+                      description:
+                          'Builders with each role and speciality, from their latest registration',
+                      fields: [
+                          {
+                              name: 'role',
+                              type: 'string',
+                              description: 'Role'
+                          },
+                          {
+                              name: 'speciality',
+                              type: 'string',
+                              description: 'Speciality'
+                          },
+                          {
+                              name: 'builders',
+                              type: 'integer',
+                              description:
+                                  'Builders with both; empty when too few to publish'
+                          }
+                      ] satisfies DatasetField[],
+                      rows: roleSpecialityStats.roles.flatMap((role, row) =>
+                          roleSpecialityStats.specialities.map(
+                              (speciality, column) => ({
+                                  role: role.name,
+                                  speciality,
+                                  builders:
+                                      roleSpecialityStats.counts[row][column]
+                              })
+                          )
+                      )
+                  }
+              ]
+            : [])
+    ],
+    retention: ({ retentionStats, cohortStats }) => [
+        ...(retentionStats
+            ? [
+                  {
+                      name: 'monthly-retention',
+                      title: 'First-timers vs returning',
+                      description:
+                          'Builders per month, split by whether it was their first hack night',
+                      fields: [
+                          MONTH_FIELD,
+                          {
+                              name: 'first_timers',
+                              type: 'integer',
+                              description:
+                                  'Builders at their first hack night; empty when too few to publish'
+                          },
+                          {
+                              name: 'returning',
+                              type: 'integer',
+                              description:
+                                  'Builders who had attended before; empty when too few to publish'
+                          },
+                          {
+                              name: 'retained_percent',
+                              type: 'number',
+                              description:
+                                  "Share of the previous month's builders who came back"
+                          }
+                      ] satisfies DatasetField[],
+                      rows: retentionStats.monthly.map(m => ({
+                          month: m.fullRequest,
+                          first_timers: m.firstTimers,
+                          returning: m.returning,
+                          retained_percent: m.retained
+                      }))
+                  },
+                  namedValues(
+                      'hack-nights-per-builder',
+                      'Hack nights per builder',
+                      'Builders by the number of hack nights they came to',
+                      ['hack_nights', 'Hack nights attended'],
+                      ['builders', 'Builders'],
+                      retentionStats.attendanceDistribution
+                  )
+              ]
+            : []),
+        ...(cohortStats
+            ? [
+                  {
+                      name: 'cohorts',
+                      title: 'Cohort retention',
+                      description:
+                          'Builders grouped by the month of their first hack night, and how many came back each month after',
+                      fields: [
+                          {
+                              name: 'cohort',
+                              type: 'string',
+                              description: 'Month of the first hack night'
+                          },
+                          {
+                              name: 'size',
+                              type: 'integer',
+                              description: 'Builders in the cohort'
+                          },
+                          {
+                              name: 'months_since',
+                              type: 'integer',
+                              description: 'Months after the first hack night'
+                          },
+                          {
+                              name: 'builders',
+                              type: 'integer',
+                              description:
+                                  'Cohort members who attended; empty when too few to publish'
+                          },
+                          {
+                              name: 'percent',
+                              type: 'number',
+                              description: 'Share of the cohort who attended'
+                          }
+                      ] satisfies DatasetField[],
+                      rows: cohortStats.flatMap(cohort =>
+                          cohort.retention.map(cell => ({
+                              cohort: cohort.fullRequest,
+                              size: cohort.size,
+                              months_since: cell.offset,
+                              builders: cell.count,
+                              percent: cell.percent
+                          }))
+                      )
+                  }
+              ]
+            : [])
+    ],
+    demographics: ({ demographicsStats }) =>
+        demographicsStats
+            ? [
+                  {
+                      name: 'demographics',
+                      title: 'Demographics',
+                      description:
+                          'Self-identification, per unique builder who answered; options picked by too few builders are left out',
+                      fields: [
+                          {
+                              name: 'question',
+                              type: 'string',
+                              description: 'Question'
+                          },
+                          {
+                              name: 'respondents',
+                              type: 'integer',
+                              description: 'Builders who answered it'
+                          },
+                          {
+                              name: 'group',
+                              type: 'string',
+                              description: 'Option'
+                          },
+                          {
+                              name: 'builders',
+                              type: 'integer',
+                              description: 'Builders who picked it'
+                          },
+                          {
+                              name: 'percent',
+                              type: 'number',
+                              description: 'Share of the respondents'
+                          }
+                      ] satisfies DatasetField[],
+                      rows: [
+                          demographicsStats.gender,
+                          demographicsStats.identity
+                      ].flatMap(({ question, respondents, groups }) =>
+                          groups.map(g => ({
+                              question,
+                              respondents,
+                              group: g.name,
+                              builders: g.value,
+                              percent: g.percent
+                          }))
+                      )
+                  }
+              ]
+            : [],
+    interests: ({ interestsStats }) => [
+        namedValues(
+            'interests',
+            'Interests',
+            'Events builders want more of, counted per approved RSVP',
+            ['interest', 'Interest'],
+            ['rsvps', 'Approved RSVPs that picked it'],
+            interestsStats.interests
+        )
+    ],
+    building: ({ textStats, keywordTrends }) => [
+        ...(textStats
+            ? [
+                  {
+                      name: 'topics',
+                      title: 'Topics',
+                      description:
+                          'Builders whose free-text answers touch each topic',
+                      fields: [
+                          {
+                              name: 'topic',
+                              type: 'string',
+                              description: 'Topic'
+                          },
+                          {
+                              name: 'builders',
+                              type: 'integer',
+                              description: 'Builders'
+                          },
+                          {
+                              name: 'percent',
+                              type: 'number',
+                              description: 'Share of the respondents'
+                          }
+                      ] satisfies DatasetField[],
+                      rows: textStats.topics.map(t => ({
+                          topic: t.name,
+                          builders: t.value,
+                          percent: t.percent
+                      }))
+                  },
+                  {
+                      name: 'keywords',
+                      title: 'Keywords',
+                      description:
+                          'Words and phrases from the free-text answers, counted per builder',
+                      fields: [
+                          {
+                              name: 'keyword',
+                              type: 'string',
+                              description: 'Word or phrase'
+                          },
+                          {
+                              name: 'words',
+                              type: 'integer',
+                              description: 'Words in it'
+                          },
+                          {
+                              name: 'builders',
+                              type: 'integer',
+                              description: 'Builders who used it'
+                          }
+                      ] satisfies DatasetField[],
+                      rows: textStats.keywords.map(k => ({
+                          keyword: k.name,
+                          words: k.words,
+                          builders: k.value
+                      }))
+                  }
+              ]
+            : []),
+        ...(keywordTrends
+            ? [
+                  {
+                      name: 'keyword-trends',
+                      title: 'Keyword trends',
+                      description: `Builders per month using each top keyword in "${keywordTrends.question}"`,
+                      fields: [
+                          MONTH_FIELD,
+                          {
+                              name: 'respondents',
+                              type: 'integer',
+                              description: 'Builders who answered that month'
+                          },
+                          {
+                              name: 'keyword',
+                              type: 'string',
+                              description: 'Keyword'
+                          },
+                          {
+                              name: 'builders',
+                              type: 'integer',
+                              description:
+                                  'Builders who used it; empty when too few to publish'
+                          }
+                      ] satisfies DatasetField[],
+                      rows: keywordTrends.monthly.flatMap(m =>
+                          keywordTrends.keywords.map(keyword => ({
+                              month: m.fullRequest,
+                              respondents: m.respondents,
+                              keyword,
+                              builders: m.counts[keyword] ?? null
+                          }))
+                      )
+                  }
+              ]
+            : [])
+    ],
+    geography: ({
+        zipCounts,
+        zipLocations,
+        regionRollups,
+        distanceStats,
+        zipTimeline
+    }) => [
+        {
+            name: 'zip-codes',
+            title: 'ZIP codes',
+            description:
+                'Approved RSVPs per ZIP code; ZIP codes with too few are left out',
+            fields: [
+                { name: 'zip', type: 'string', description: 'ZIP code' },
+                {
+                    name: 'rsvps',
+                    type: 'integer',
+                    description: 'Approved RSVPs'
+                },
+                { name: 'city', type: 'string', description: 'Postal city' },
+                { name: 'county', type: 'string', description: 'County' },
+                {
+                    name: 'state',
+                    type: 'string',
+                    description: 'Two-letter state code'
+                },
+                {
+                    name: 'lat',
+                    type: 'number',
+                    description: 'Latitude of the ZIP code centroid'
+                },
+                {
+                    name: 'lon',
+                    type: 'number',
+                    description: 'Longitude of the ZIP code centroid'
+                }
+            ],
+            rows: Object.entries(zipCounts).map(([zip, rsvps]) => {
+                const location = zipLocations?.[zip];
+                return {
+                    zip,
+                    rsvps,
+                    city: location?.city ?? null,
+                    county: location?.county || null,
+                    state: location?.state ?? null,
+                    lat: location?.lat ?? null,
+                    lon: location?.lon ?? null
+                };
+            })
+        },
+        ...(regionRollups
+            ? [
+                  {
+                      name: 'regions',
+                      title: 'Regions',
+                      description:
+                          'ZIP code counts summed by neighborhood, city, county and state',
+                      fields: [
+                          {
+                              name: 'level',
+                              type: 'string',
+                              description:
+                                  'neighborhoods, cities, counties or states'
+                          },
+                          {
+                              name: 'region',
+                              type: 'string',
+                              description: 'Region'
+                          },
+                          {
+                              name: 'rsvps',
+                              type: 'integer',
+                              description: 'Approved RSVPs'
+                          },
+                          {
+                              name: 'zip_codes',
+                              type: 'integer',
+                              description: 'Published ZIP codes in the region'
+                          }
+                      ] satisfies DatasetField[],
+                      rows: (
+                          [
+                              'neighborhoods',
+                              'cities',
+                              'counties',
+                              'states'
+                          ] as const
+                      ).flatMap(level =>
+                          regionRollups[level].map(region => ({
+                              level,
+                              region: region.name,
+                              rsvps: region.value,
+                              zip_codes: region.zips
+                          }))
+                      )
+                  }
+              ]
+            : []),
+        ...(distanceStats
+            ? [
+                  namedValues(
+                      'distance',
+                      'Distance to the venue',
+                      'Builders by straight-line distance from their ZIP code to the venue',
+                      ['miles', 'Distance band, in miles'],
+                      ['builders', 'Builders'],
+                      distanceStats.distribution
+                  )
+              ]
+            : []),
+        ...(zipTimeline
+            ? [
+                  {
+                      name: 'zip-codes-by-month',
+                      title: 'ZIP codes by month',
+                      description:
+                          'Approved RSVPs per ZIP code so far, at the end of each month; totals only move in steps big enough to publish, so smaller gains show up in a later month',
+                      fields: [
+                          MONTH_FIELD,
+                          {
+                              name: 'zip',
+                              type: 'string',
+                              description: 'ZIP code'
+                          },
+                          {
+                              name: 'rsvps',
+                              type: 'integer',
+                              description: 'Approved RSVPs so far this year'
+                          }
+                      ] satisfies DatasetField[],
+                      rows: zipTimeline.flatMap(m =>
+                          Object.entries(m.counts).map(([zip, rsvps]) => ({
+                              month: m.fullRequest,
+                              zip,
+                              rsvps
+                          }))
+                      )
+                  }
+              ]
+            : [])
+    ]
+};
+
+/** The tables behind a section's charts, in the order they appear */
+export function sectionDatasets(report: Report, section: string): Dataset[] {
+    return SECTION_DATASETS[section]?.(report) ?? [];
+}
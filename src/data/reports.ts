@@ -0,0 +1,158 @@
+import type { z } from 'zod';
+
+import {
+    cohortStatsSchema,
+    demographicsStatsSchema,
+    distanceStatsSchema,
+    generalStatsSchema,
+    growthStatsSchema,
+    impactStatsSchema,
+    interestsStatsSchema,
+    keywordTrendsSchema,
+    regionRollupsSchema,
+    retentionStatsSchema,
+    roleSpecialityStatsSchema,
+    textStatsSchema,
+    zipCountsSchema,
+    zipLocationsSchema,
+    zipTimelineSchema
+} from '@/types/stats';
+import { parseWithSchema } from '@/utils/validation';
+
+// Every edition lives in its own `src/data/<year>/` directory, written by
+// `pnpm data --year <year>`. Dropping in a new directory is all it takes to
+// publish a new edition; older ones stay available for the archive.
+const dataFiles: Record<string, unknown> = import.meta.glob(
+    ['./*/precomputed/*.json', './*/zip-counts.json', './*/zip-locations.json'],
+    { eager: true, import: 'default' }
+);
+
+const YEAR_PATTERN = /^\.\/(\d{4})\//;
+
+function readFile<T extends z.ZodTypeAny>(
+    year: number,
+    file: string,
+    schema: T
+): z.output<T> {
+    const data = dataFiles[`./${year}/${file}`];
+    if (data === undefined) {
+        throw new Error(`Missing data file src/data/${year}/${file}`);
+    }
+    return parseWithSchema(schema, data, `${year}/${file}`);
+}
+
+/**
+ * Files added to the pipeline after the first data drop. Sections backed by
+ * them render nothing until `pnpm data` has produced them for that year.
+ */
+function readOptionalFile<T extends z.ZodTypeAny>(
+    year: number,
+    file: string,
+    schema: T
+): z.output<T> | null {
+    return dataFiles[`./${year}/${file}`] === undefined
+        ? null
+        : readFile(year, file, schema);
+}
+
+function loadReport(year: number) {
+    return {
+        year,
+        generalStats: readFile(
+            year,
+            'precomputed/general-stats.json',
+            generalStatsSchema
+        ),
+        growthStats: readFile(
+            year,
+            'precomputed/growth-stats.json',
+            growthStatsSchema
+        ),
+        impactStats: readFile(
+            year,
+            'precomputed/impact-stats.json',
+            impactStatsSchema
+        ),
+        interestsStats: readFile(
+            year,
+            'precomputed/interests-stats.json',
+            interestsStatsSchema
+        ),
+        roleSpecialityStats: readOptionalFile(
+            year,
+            'precomputed/role-speciality-stats.json',
+            roleSpecialityStatsSchema
+        ),
+        retentionStats: readOptionalFile(
+            year,
+            'precomputed/retention-stats.json',
+            retentionStatsSchema
+        ),
+        cohortStats: readOptionalFile(
+            year,
+            'precomputed/cohort-stats.json',
+            cohortStatsSchema
+        ),
+        demographicsStats: readOptionalFile(
+            year,
+            'precomputed/demographics-stats.json',
+            demographicsStatsSchema
+        ),
+        textStats: readOptionalFile(
+            year,
+            'precomputed/text-stats.json',
+            textStatsSchema
+        ),
+        keywordTrends: readOptionalFile(
+            year,
+            'precomputed/keyword-trends.json',
+            keywordTrendsSchema
+        ),
+        distanceStats: readOptionalFile(
+            year,
+            'precomputed/distance-stats.json',
+            distanceStatsSchema
+        ),
+        regionRollups: readOptionalFile(
+            year,
+            'precomputed/region-rollups.json',
+            regionRollupsSchema
+        ),
+        zipTimeline: readOptionalFile(
+            year,
+            'precomputed/zip-timeline.json',
+            zipTimelineSchema
+        ),
+        zipCounts: readFile(year, 'zip-counts.json', zipCountsSchema),
+        zipLocations: readOptionalFile(
+            year,
+            'zip-locations.json',
+            zipLocationsSchema
+        )
+    };
+}
+
+export type Report = ReturnType<typeof loadReport>;
+
+/** Every edition with data, newest first */
+export const reportYears = [
+    ...new Set(
+        Object.keys(dataFiles)
+            .map(file => file.match(YEAR_PATTERN)?.[1])
+            .filter((year): year is string => year !== undefined)
+            .map(Number)
+    )
+].sort((a, b) => b - a);
+
+if (reportYears.length === 0) {
+    throw new Error('No report data found under src/data/<year>/');
+}
+
+// Parsed eagerly so a malformed data drop fails on load, not mid-render
+const reports = new Map(reportYears.map(year => [year, loadReport(year)]));
+
+export const latestYear = reportYears[0];
+
+export function getReport(year: number) {
+    return reports.get(year);
+}
@@ -0,0 +1,44 @@
+import { StrictMode } from 'react';
+import { renderToString } from 'react-dom/server';
+import { StaticRouter } from 'react-router';
+
+import App from './App.tsx';
+import { reportDescription, reportTitle } from './config/report';
+import { availableSections, reportPath } from './config/routes';
+import { getReport, latestYear, reportYears } from './data/reports';
+
+/**
+ * Server entry used by `scripts/prerender.ts` to render every route to
+ * static HTML at build time. The browser entry (`main.tsx`) hydrates it.
+ */
+
+/** Every URL worth prerendering: the home page, each edition and section */
+export function prerenderRoutes() {
+    return [
+        '/',
+        ...reportYears.flatMap(year => [
+            reportPath(year),
+            ...availableSections(getReport(year)!).map(s =>
+                reportPath(year, s.id)
+            )
+        ])
+    ];
+}
+
+export function render(url: string) {
+    const year = getReport(Number(url.split('/')[1]))?.year ?? latestYear;
+
+    const html = renderToString(
+        <StrictMode>
+            <StaticRouter location={url}>
+                <App />
+            </StaticRouter>
+        </StrictMode>
+    );
+
+    return {
+        html,
+        title: reportTitle(year),
+        description: reportDescription(year)
+    };
+}
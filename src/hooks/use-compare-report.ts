@@ -0,0 +1,43 @@
+import { useCallback } from 'react';
+import { useSearchParams } from 'react-router';
+
+import { getReport, reportYears } from '@/data/reports';
+import { useHydrated } from './use-hydrated';
+import { useReport } from './use-report';
+
+/** Search param holding the edition to compare against, e.g. `?compare=2024` */
+export const COMPARE_PARAM = 'compare';
+
+/**
+ * The edition the current report is compared against, read from the URL.
+ * Only earlier editions can be compared.
+ */
+export function useCompareReport() {
+    const { year } = useReport();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const hydrated = useHydrated();
+
+    const compareYears = reportYears.filter(y => y < year);
+
+    const requested = Number(searchParams.get(COMPARE_PARAM));
+    const compareReport =
+        hydrated && compareYears.includes(requested)
+            ? getReport(requested)!
+            : null;
+
+    const setCompareYear = useCallback(
+        (compareYear: number | null) => {
+            setSearchParams(
+                params => {
+                    if (compareYear === null) params.delete(COMPARE_PARAM);
+                    else params.set(COMPARE_PARAM, String(compareYear));
+                    return params;
+                },
+                { replace: true, preventScrollReset: true }
+            );
+        },
+        [setSearchParams]
+    );
+
+    return { compareReport, compareYears, setCompareYear };
+}
@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react';
+
+const subscribe = () => () => {};
+
+/**
+ * False while prerendering and hydrating, true afterwards. Anything read
+ * from the URL beyond the path (which the prerendered HTML never has) must
+ * wait for it, or hydration will not match the markup.
+ */
+export function useHydrated() {
+    return useSyncExternalStore(
+        subscribe,
+        () => true,
+        () => false
+    );
+}
@@ -0,0 +1,14 @@
+import { createContext, useContext } from 'react';
+
+import type { Report } from '@/data/reports';
+
+export const ReportContext = createContext<Report | null>(null);
+
+/** The edition of the report currently being viewed */
+export function useReport() {
+    const context = useContext(ReportContext);
+    if (!context) {
+        throw new Error('useReport must be used within a ReportContext');
+    }
+    return context;
+}
@@ -0,0 +1,106 @@
+import { useEffect, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router';
+
+interface SectionScrollSyncOptions {
+    /** Path of the report itself; sections live at `${basePath}/${id}` */
+    basePath: string;
+    /** Element ids of the linkable sections, in page order */
+    sectionIds: string[];
+    /** Section named in the current URL, if any */
+    activeSection?: string;
+}
+
+/**
+ * Keeps the URL and the scroll position in sync: navigating to a section
+ * URL scrolls to it, and scrolling past a section rewrites the URL (without
+ * adding history entries) so the address bar is always a shareable link to
+ * what the reader is looking at.
+ */
+export function useSectionScrollSync({
+    basePath,
+    sectionIds,
+    activeSection
+}: SectionScrollSyncOptions) {
+    const navigate = useNavigate();
+    // Carried along so options such as `?compare=` survive scrolling
+    const { search } = useLocation();
+    // Section the URL was last synced to. Navigation to anything else came
+    // from a link and needs scrolling; our own URL updates must not.
+    const syncedSection = useRef<string | undefined>(undefined);
+    const isFirstScroll = useRef(true);
+    const isScrollingToSection = useRef(false);
+
+    useEffect(() => {
+        const firstScroll = isFirstScroll.current;
+        isFirstScroll.current = false;
+
+        if (activeSection === syncedSection.current) return;
+        syncedSection.current = activeSection;
+
+        const behavior: ScrollBehavior = firstScroll ? 'auto' : 'smooth';
+        const element = activeSection
+            ? document.getElementById(activeSection)
+            : null;
+
+        // Ignore intermediate sections while a smooth scroll is underway
+        isScrollingToSection.current = true;
+        const done = () => {
+            isScrollingToSection.current = false;
+        };
+        window.addEventListener('scrollend', done, { once: true });
+        const fallback = window.setTimeout(done, 1000);
+
+        if (element) {
+            element.scrollIntoView({ behavior, block: 'start' });
+        } else {
+            window.scrollTo({ top: 0, behavior });
+        }
+
+        return () => {
+            window.removeEventListener('scrollend', done);
+            window.clearTimeout(fallback);
+            done();
+        };
+    }, [activeSection]);
+
+    useEffect(() => {
+        let frame = 0;
+
+        const update = () => {
+            frame = 0;
+            if (isScrollingToSection.current) return;
+
+            // The current section is the last one whose top has crossed
+            // the middle of the viewport
+            const middle = window.innerHeight / 2;
+            let current: string | undefined;
+            for (const id of sectionIds) {
+                const element = document.getElementById(id);
+                if (element && element.getBoundingClientRect().top <= middle) {
+                    current = id;
+                }
+            }
+
+            if (current === syncedSection.current) return;
+            syncedSection.current = current;
+
+            navigate(
+                {
+                    pathname: current ? `${basePath}/${current}` : basePath,
+                    search
+                },
+                { replace: true, preventScrollReset: true }
+            );
+        };
+
+        const handleScroll = () => {
+            if (!frame) frame = requestAnimationFrame(update);
+        };
+
+        window.addEventListener('scroll', handleScroll, { passive: true });
+        return () => {
+            window.removeEventListener('scroll', handleScroll);
+            cancelAnimationFrame(frame);
+        };
+    }, [basePath, navigate, search, sectionIds]);
+}
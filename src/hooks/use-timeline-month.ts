@@ -0,0 +1,45 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router';
+
+import { useHydrated } from './use-hydrated';
+import { useReport } from './use-report';
+
+/** Search param holding the time-lapse position, e.g. `?month=2025-03` */
+export const MONTH_PARAM = 'month';
+
+/**
+ * The month the geography time-lapse is at, read from the URL. `null`
+ * means the whole year, as does a month the edition has no data for.
+ */
+export function useTimelineMonth() {
+    const { zipTimeline } = useReport();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const hydrated = useHydrated();
+
+    const months = useMemo(
+        () => zipTimeline?.map(m => m.fullRequest) ?? [],
+        [zipTimeline]
+    );
+
+    const requested = searchParams.get(MONTH_PARAM);
+    const month =
+        hydrated && requested !== null && months.includes(requested)
+            ? requested
+            : null;
+
+    const setMonth = useCallback(
+        (month: string | null) => {
+            setSearchParams(
+                params => {
+                    if (month === null) params.delete(MONTH_PARAM);
+                    else params.set(MONTH_PARAM, month);
+                    return params;
+                },
+                { replace: true, preventScrollReset: true }
+            );
+        },
+        [setSearchParams]
+    );
+
+    return { months, month, setMonth };
+}
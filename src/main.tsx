@@ -1,13 +1,26 @@
 import { StrictMode } from 'react';
-import { createRoot } from 'react-dom/client';
+import { createRoot, hydrateRoot } from 'react-dom/client';
+import { BrowserRouter } from 'react-router';
 
 import '@fontsource/inter/index.css';
 
 import './index.css';
 import App from './App.tsx';
 
-createRoot(document.getElementById('root')!).render(
+const root = document.getElementById('root')!;
+
+const app = (
     <StrictMode>
-        <App />
+        <BrowserRouter>
+            <App />
+        </BrowserRouter>
     </StrictMode>
 );
+
+// Built pages are prerendered by `scripts/prerender.ts`; the dev server and
+// the 404 fallback page ship an empty root instead
+if (root.hasChildNodes()) {
+    hydrateRoot(root, app);
+} else {
+    createRoot(root).render(app);
+}
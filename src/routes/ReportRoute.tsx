@@ -0,0 +1,81 @@
+import { useEffect, useMemo } from 'react';
+import { Navigate, useParams, useSearchParams } from 'react-router';
+
+import { Navbar } from '@/components/layout/Navbar';
+import { Footer } from '@/components/layout/Footer';
+import { reportTitle } from '@/config/report';
+import { availableSections, reportPath } from '@/config/routes';
+import { getReport, latestYear, type Report } from '@/data/reports';
+import { ReportContext } from '@/hooks/use-report';
+import { useSectionScrollSync } from '@/hooks/use-section-scroll-sync';
+import { Building } from '@/sections/Building';
+import { Demographics } from '@/sections/Demographics';
+import { Hero } from '@/sections/Hero';
+import { Geography } from '@/sections/Geography';
+import { Impact } from '@/sections/Impact';
+import { Interests } from '@/sections/Interests';
+import { Retention } from '@/sections/Retention';
+
+/**
+ * Serves `/`, `/:year` and `/:year/:section`. Unknown years and sections
+ * redirect to the closest valid page instead of rendering an empty report.
+ */
+export function ReportRoute() {
+    const params = useParams();
+    const [searchParams] = useSearchParams();
+
+    // Links shared before routing existed used `/?year=2024`
+    const legacyYear = Number(searchParams.get('year'));
+    if (!params.year && getReport(legacyYear)) {
+        return <Navigate to={reportPath(legacyYear)} replace />;
+    }
+
+    const report = getReport(params.year ? Number(params.year) : latestYear);
+    if (!report) {
+        return <Navigate to="/" replace />;
+    }
+
+    const sections = availableSections(report);
+    if (params.section && !sections.some(s => s.id === params.section)) {
+        return <Navigate to={reportPath(report.year)} replace />;
+    }
+
+    return (
+        <ReportContext.Provider value={report}>
+            <ReportPage report={report} section={params.section} />
+        </ReportContext.Provider>
+    );
+}
+
+function ReportPage({ report, section }: { report: Report; section?: string }) {
+    const sectionIds = useMemo(
+        () => availableSections(report).map(s => s.id),
+        [report]
+    );
+
+    useSectionScrollSync({
+        basePath: reportPath(report.year),
+        sectionIds,
+        activeSection: section
+    });
+
+    useEffect(() => {
+        document.title = reportTitle(report.year);
+    }, [report.year]);
+
+    return (
+        <div className="min-h-screen bg-dots-zinc-900 bg-size-[20px_20px] bg-zinc-950">
+            <Navbar />
+            <main className="space-y-12 pb-20">
+                <Hero />
+                <Impact />
+                <Retention />
+                <Demographics />
+                <Interests />
+                <Building />
+                <Geography />
+            </main>
+            <Footer />
+        </div>
+    );
+}
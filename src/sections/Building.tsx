@@ -0,0 +1,80 @@
+import { KeywordCloud } from '../components/charts/KeywordCloud';
+import { KeywordTrendChart } from '../components/charts/KeywordTrendChart';
+import { NeoCard } from '../components/ui/NeoCard';
+import { Section } from '../components/ui/Section';
+import { useReport } from '../hooks/use-report';
+
+const VARIANTS = ['cyan', 'magenta', 'yellow'] as const;
+
+export function Building() {
+    const { textStats, keywordTrends } = useReport();
+
+    // Not every data drop has the text stats yet
+    if (!textStats) return null;
+
+    const { respondents, minCount, topics, keywords } = textStats;
+
+    return (
+        <Section
+            title="What are people building?"
+            subtitle="Mined from what builders told us they were hacking on, and what they built last."
+            id="building"
+        >
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {topics.map((topic, idx) => (
+                    <NeoCard
+                        key={topic.name}
+                        variant={VARIANTS[idx % VARIANTS.length]}
+                        className="flex flex-col justify-between"
+                    >
+                        <div className="text-4xl font-black mb-4 font-heading text-primary">
+                            {topic.percent}%
+                        </div>
+                        <div>
+                            <h4 className="font-bold text-lg mb-2 uppercase text-white font-heading">
+                                {topic.name}
+                            </h4>
+                            <div className="w-full bg-zinc-800 h-4 border-2 border-white">
+                                <div
+                                    className="h-full bg-primary"
+                                    style={{ width: `${topic.percent}%` }}
+                                />
+                            </div>
+                            <div className="text-right font-mono text-sm mt-1 text-zinc-400">
+                                {topic.value} builders
+                            </div>
+                        </div>
+                    </NeoCard>
+                ))}
+            </div>
+
+            {keywords.length > 0 && (
+                <NeoCard className="mt-8">
+                    <h3 className="text-2xl font-bold mb-6 font-heading">
+                        Keyword Cloud
+                    </h3>
+                    <KeywordCloud keywords={keywords} />
+                </NeoCard>
+            )}
+
+            {keywordTrends && keywordTrends.keywords.length > 0 && (
+                <NeoCard className="mt-8">
+                    <h3 className="text-2xl font-bold mb-2 font-heading">
+                        Trends
+                    </h3>
+                    <p className="text-xs text-zinc-500 font-mono mb-6 uppercase">
+                        Share of each month&apos;s builders mentioning a keyword
+                        in &ldquo;{keywordTrends.question}&rdquo;
+                    </p>
+                    <KeywordTrendChart data={keywordTrends} />
+                </NeoCard>
+            )}
+
+            <p className="mt-8 text-xs text-zinc-500 font-mono">
+                From {respondents} builders&apos; free-text answers, in English
+                and Spanish. Each builder counts once per word or topic, and
+                words used by fewer than {minCount} builders are left out.
+            </p>
+        </Section>
+    );
+}
@@ -0,0 +1,92 @@
+import { NeoCard } from '../components/ui/NeoCard';
+import { Section } from '../components/ui/Section';
+import { useReport } from '../hooks/use-report';
+import type { DemographicBreakdown } from '../types/stats';
+
+export function Demographics() {
+    const { demographicsStats } = useReport();
+
+    // Not every data drop has demographics yet
+    if (!demographicsStats) return null;
+
+    const { minGroupSize, gender, identity } = demographicsStats;
+
+    return (
+        <Section
+            title="Who is in the room?"
+            subtitle="How builders self-identify, as a share of everyone who answered."
+            id="demographics"
+        >
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                <BreakdownCard
+                    title="Gender"
+                    breakdown={gender}
+                    variant="cyan"
+                />
+                <BreakdownCard
+                    title="Self-Identification"
+                    breakdown={identity}
+                    variant="magenta"
+                />
+            </div>
+
+            <p className="mt-8 text-xs text-zinc-500 font-mono">
+                Builders could pick more than one option, so percentages can add
+                up to more than 100%. Each builder is counted once, with their
+                latest answer. Options picked by fewer than {minGroupSize}{' '}
+                builders are grouped as &ldquo;Other&rdquo;, or not shown when
+                even that group is too small.
+            </p>
+        </Section>
+    );
+}
+
+interface BreakdownCardProps {
+    title: string;
+    breakdown: DemographicBreakdown;
+    variant: 'cyan' | 'magenta';
+}
+
+function BreakdownCard({ title, breakdown, variant }: BreakdownCardProps) {
+    const { respondents, groups, suppressedGroups } = breakdown;
+
+    return (
+        <NeoCard variant={variant}>
+            <h3 className="text-2xl font-bold mb-2 font-heading">{title}</h3>
+            <p className="text-xs text-zinc-500 font-mono mb-6 uppercase">
+                {respondents} builders answered
+            </p>
+
+            {groups.length === 0 ? (
+                <p className="text-sm text-zinc-400 font-mono">
+                    Not enough answers to publish this breakdown.
+                </p>
+            ) : (
+                <div className="space-y-4">
+                    {groups.map(item => (
+                        <div key={item.name}>
+                            <div className="flex justify-between text-sm font-mono mb-1 font-bold uppercase">
+                                <span>{item.name}</span>
+                                <span>{item.percent}%</span>
+                            </div>
+                            <div className="w-full bg-zinc-900 border-2 border-border h-3">
+                                <div
+                                    className="h-full bg-emerald-400"
+                                    style={{ width: `${item.percent}%` }}
+                                />
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {suppressedGroups > 0 && (
+                <p className="mt-6 text-xs text-zinc-500 font-mono">
+                    {suppressedGroups}{' '}
+                    {suppressedGroups === 1 ? 'option' : 'options'} grouped or
+                    hidden to protect small groups
+                </p>
+            )}
+        </NeoCard>
+    );
+}
@@ -1,16 +1,95 @@
-import { CommunityMap } from '../components/map/CommunityMap';
+import { lazy, Suspense, useState } from 'react';
+
+import { DistanceChart } from '../components/charts/DistanceChart';
+import { MapPlaceholder } from '../components/map/MapPlaceholder';
+import { RegionTable } from '../components/map/RegionTable';
+import { TimelineScrubber } from '../components/map/TimelineScrubber';
+import { NeoCard } from '../components/ui/NeoCard';
 import { Section } from '../components/ui/Section';
+import { StatCard } from '../components/ui/StatCard';
+import { privacyConfig } from '../config/privacy';
+import { useReport } from '../hooks/use-report';
+
+// MapLibre needs a browser, so the map stays out of the prerendered HTML
+const CommunityMap = lazy(() =>
+    import('../components/map/CommunityMap').then(m => ({
+        default: m.CommunityMap
+    }))
+);
 
 export function Geography() {
+    const { distanceStats, regionRollups } = useReport();
+    const [focus, setFocus] = useState<{
+        bounds: [number, number, number, number];
+    } | null>(null);
+
     return (
         <Section
             title="Community Geography"
             subtitle="Where are our builders coming from? Based on zip codes provided during registration."
             id="geography"
         >
-            <div className="mt-8">
-                <CommunityMap />
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mt-8">
+                <div
+                    className={
+                        regionRollups ? 'lg:col-span-2' : 'lg:col-span-3'
+                    }
+                >
+                    <Suspense fallback={<MapPlaceholder />}>
+                        <CommunityMap focus={focus} />
+                    </Suspense>
+                    <TimelineScrubber />
+                </div>
+
+                {regionRollups && (
+                    <NeoCard>
+                        <h3 className="text-2xl font-bold mb-6 font-heading">
+                            By region
+                        </h3>
+                        <RegionTable
+                            rollups={regionRollups}
+                            onSelect={region =>
+                                setFocus({ bounds: region.bounds })
+                            }
+                        />
+                    </NeoCard>
+                )}
             </div>
+
+            {distanceStats && (
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mt-8">
+                    <NeoCard className="lg:col-span-2">
+                        <h3 className="text-2xl font-bold mb-2 font-heading">
+                            How far do people come from?
+                        </h3>
+                        <p className="text-xs text-zinc-500 font-mono mb-6 uppercase">
+                            {distanceStats.builders} builders, from their ZIP
+                            code to{' '}
+                            {distanceStats.venues.map(v => v.name).join(' / ')}
+                        </p>
+                        <DistanceChart data={distanceStats.distribution} />
+                    </NeoCard>
+
+                    <div className="grid grid-cols-1 gap-8">
+                        <StatCard
+                            label="Out of State"
+                            value={
+                                distanceStats.outOfState === null
+                                    ? `<${privacyConfig.minCellSize}`
+                                    : `${distanceStats.outOfStatePercent}%`
+                            }
+                            subtext={`${distanceStats.outOfState ?? `Fewer than ${privacyConfig.minCellSize}`} builders registered with a ZIP code outside ${[...new Set(distanceStats.venues.map(v => v.state))].join(' / ')}`}
+                            variant="magenta"
+                        />
+                        <StatCard
+                            label="Median Trip"
+                            value={`${distanceStats.medianMiles} mi`}
+                            subtext="Straight-line distance from home ZIP to the venue"
+                            variant="cyan"
+                        />
+                    </div>
+                </div>
+            )}
         </Section>
     );
 }
@@ -1,17 +1,41 @@
+import { useRef } from 'react';
 import { ArrowDown } from 'lucide-react';
+import { ShareImage } from '../components/ui/ShareImage';
 import { StatCard } from '../components/ui/StatCard';
-import stats from '../data/precomputed/general-stats.json';
+import { privacyConfig } from '../config/privacy';
+import { useCompareReport } from '../hooks/use-compare-report';
+import { useReport } from '../hooks/use-report';
+import { cn } from '../utils/cn';
+
+/** How a total too small to publish reads on its card */
+const SUPPRESSED = `<${privacyConfig.minCellSize}`;
+
+/** Only totals that both editions published can be compared */
+function compareTotals(
+    current: number | null,
+    previous: number | null | undefined,
+    label: string
+) {
+    return current !== null && previous != null
+        ? { current, previous, label }
+        : undefined;
+}
 
 export function Hero() {
-    // Calculate some quick stats
-    const { totalEvents, totalRegistrations, uniqueGuests } = stats;
+    const { year, generalStats } = useReport();
+    const { totalEvents, totalRegistrations, uniqueGuests } = generalStats;
+    const { compareReport, compareYears, setCompareYear } = useCompareReport();
+
+    const previous = compareReport?.generalStats;
+    const compareLabel = `vs ${compareReport?.year}`;
+    const statsRef = useRef<HTMLDivElement>(null);
 
     return (
         <section className="min-h-[90vh] flex flex-col justify-center items-center relative py-20 px-4">
             <div className="max-w-6xl w-full mx-auto space-y-16">
                 <div className="text-center space-y-8">
                     <div className="inline-block px-4 py-2 bg-zinc-950 text-white neo-shadow border-2 border-primary font-mono text-sm md:text-base lg:text-3xl font-bold uppercase tracking-widest transform -rotate-2">
-                        Hack Night - 2025 Year in Review
+                        Hack Night - {year} Year in Review
                     </div>
                     <h1 className="text-6xl md:text-8xl lg:text-9xl font-black font-sans tracking-tighter text-white leading-[0.9] pt-2">
                         hello_miami
@@ -22,24 +46,80 @@ export function Hero() {
                     </p>
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-8 pt-8">
+                <div
+                    ref={statsRef}
+                    className="grid grid-cols-1 md:grid-cols-3 gap-8 pt-8"
+                >
                     <StatCard
                         label="Events Hosted"
                         value={totalEvents}
                         variant="cyan"
+                        comparison={
+                            previous && {
+                                current: totalEvents,
+                                previous: previous.totalEvents,
+                                label: compareLabel
+                            }
+                        }
                     />
                     <StatCard
                         label="Total Registrations"
-                        value={totalRegistrations.toLocaleString()}
+                        value={
+                            totalRegistrations?.toLocaleString() ?? SUPPRESSED
+                        }
                         subtext="Approved RSVPs"
                         variant="magenta"
+                        comparison={compareTotals(
+                            totalRegistrations,
+                            previous?.totalRegistrations,
+                            compareLabel
+                        )}
                     />
                     <StatCard
                         label="Unique Builders"
-                        value={uniqueGuests}
+                        value={uniqueGuests ?? SUPPRESSED}
                         variant="yellow"
+                        comparison={compareTotals(
+                            uniqueGuests,
+                            previous?.uniqueGuests,
+                            compareLabel
+                        )}
                     />
                 </div>
+
+                <div className="flex justify-center">
+                    <ShareImage
+                        containerRef={statsRef}
+                        title={`Hack Night ${year} by the numbers`}
+                        wholeLabel="All stats"
+                    />
+                </div>
+
+                {compareYears.length > 0 && (
+                    <div className="flex flex-wrap items-center justify-center gap-2 font-mono text-sm font-bold">
+                        <span className="text-zinc-500 uppercase">
+                            Compare with
+                        </span>
+                        {[null, ...compareYears].map(y => (
+                            <button
+                                key={y ?? 'none'}
+                                type="button"
+                                aria-pressed={
+                                    y === (compareReport?.year ?? null)
+                                }
+                                onClick={() => setCompareYear(y)}
+                                className={cn(
+                                    'px-2 py-1 border transition-all',
+                                    y === (compareReport?.year ?? null)
+                                        ? 'bg-white text-black border-white'
+                                        : 'text-white border-zinc-700 hover:border-white'
+                                )}
+                            >
+                                {y ?? 'None'}
+                            </button>
+                        ))}
+                    </div>
+                )}
             </div>
 
             <div className="absolute bottom-10 left-1/2 -translate-x-1/2 animate-bounce">
@@ -1,21 +1,25 @@
+import { CrossTabChart } from '../components/charts/CrossTabChart';
 import { GrowthChart } from '../components/charts/GrowthChart';
 import { NeoCard } from '../components/ui/NeoCard';
 import { Section } from '../components/ui/Section';
-import stats from '../data/precomputed/impact-stats.json';
+import { useReport } from '../hooks/use-report';
+
+// Experience buckets in logical order; anything unknown goes last
+const EXPERIENCE_ORDER = ['1-3', '3-5', '5-10', '10+'];
 
 export function Impact() {
-    const { roles, experience } = stats;
+    const { impactStats, roleSpecialityStats } = useReport();
+    const { roles, specialities } = impactStats;
 
-    // Sort experience logically if possible, otherwise it's by count
-    // Custom sort order for experience
-    const expOrder = ['1-3', '3-5', '5-10', '10+'];
-    experience.sort((a, b) => {
-        const idxA = expOrder.indexOf(a.name);
-        const idxB = expOrder.indexOf(b.name);
+    // Copy before sorting; the parsed report is shared module state
+    const experience = [...impactStats.experience].sort((a, b) => {
+        const idxA = EXPERIENCE_ORDER.indexOf(a.name);
+        const idxB = EXPERIENCE_ORDER.indexOf(b.name);
         if (idxA === -1) return 1;
         if (idxB === -1) return -1;
         return idxA - idxB;
     });
+    const maxExperience = Math.max(...experience.map(e => e.value));
 
     return (
         <Section
@@ -70,7 +74,7 @@ export function Impact() {
                                     <div
                                         className="h-full bg-emerald-400"
                                         style={{
-                                            width: `${(item.value / Math.max(...experience.map(e => e.value))) * 100}%`
+                                            width: `${(item.value / maxExperience) * 100}%`
                                         }}
                                     />
                                 </div>
@@ -78,6 +82,52 @@ export function Impact() {
                         ))}
                     </div>
                 </NeoCard>
+
+                {specialities.length > 0 && (
+                    <NeoCard variant="yellow" className="lg:col-span-2">
+                        <h3 className="text-2xl font-bold mb-6 font-heading">
+                            Specialities
+                        </h3>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+                            {specialities.map(item => (
+                                <div key={item.name}>
+                                    <div className="flex justify-between text-sm font-mono mb-1 font-bold uppercase">
+                                        <span>{item.name}</span>
+                                        <span>{item.value}</span>
+                                    </div>
+                                    <div className="w-full bg-zinc-900 border-2 border-border h-3">
+                                        <div
+                                            className="h-full bg-emerald-400"
+                                            style={{
+                                                width: `${(item.value / specialities[0].value) * 100}%`
+                                            }}
+                                        />
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </NeoCard>
+                )}
+
+                {roleSpecialityStats && (
+                    <NeoCard className="lg:col-span-2">
+                        <h3 className="text-2xl font-bold mb-2 font-heading">
+                            Roles × Specialities
+                        </h3>
+                        <p className="text-xs text-zinc-500 font-mono mb-6 uppercase">
+                            {roleSpecialityStats.builders} builders, shaded by
+                            share of each role
+                        </p>
+                        <CrossTabChart
+                            rows={roleSpecialityStats.roles}
+                            columns={roleSpecialityStats.specialities}
+                            counts={roleSpecialityStats.counts}
+                            describe={(role, speciality) =>
+                                `${role} builders list ${speciality}`
+                            }
+                        />
+                    </NeoCard>
+                )}
             </div>
         </Section>
     );
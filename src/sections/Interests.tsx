@@ -1,9 +1,9 @@
 import { NeoCard } from '../components/ui/NeoCard';
 import { Section } from '../components/ui/Section';
-import stats from '../data/precomputed/interests-stats.json';
+import { useReport } from '../hooks/use-report';
 
 export function Interests() {
-    const { interests } = stats;
+    const { interests } = useReport().interestsStats;
 
     // Take top 6
     const topInterests = interests.slice(0, 6);
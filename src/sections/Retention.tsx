@@ -0,0 +1,112 @@
+import { AttendeeMixChart } from '../components/charts/AttendeeMixChart';
+import { CohortChart } from '../components/charts/CohortChart';
+import { NeoCard } from '../components/ui/NeoCard';
+import { Section } from '../components/ui/Section';
+import { StatCard } from '../components/ui/StatCard';
+import { useReport } from '../hooks/use-report';
+
+export function Retention() {
+    const { retentionStats, cohortStats } = useReport();
+
+    // Not every data drop has retention stats yet
+    if (!retentionStats) return null;
+
+    const {
+        retentionRate,
+        averageEventsPerBuilder,
+        monthly,
+        attendanceDistribution
+    } = retentionStats;
+    const maxBucket = Math.max(...attendanceDistribution.map(b => b.value));
+
+    return (
+        <Section
+            title="Who keeps coming back?"
+            subtitle="First-timers vs returning builders, and how often the same faces show up."
+            id="retention"
+        >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                <StatCard
+                    label="Returning Builders"
+                    value={`${retentionRate}%`}
+                    subtext="Came to more than one hack night"
+                    variant="cyan"
+                />
+                <StatCard
+                    label="Hack Nights per Builder"
+                    value={averageEventsPerBuilder}
+                    subtext="Average approved RSVPs per unique builder"
+                    variant="magenta"
+                />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mt-8">
+                <NeoCard className="lg:col-span-2">
+                    <h3 className="text-2xl font-bold mb-6 font-heading">
+                        First-Timers vs Returning
+                    </h3>
+                    <AttendeeMixChart data={monthly} />
+                </NeoCard>
+
+                <NeoCard variant="yellow">
+                    <h3 className="text-2xl font-bold mb-6 font-heading">
+                        Hack Nights per Builder
+                    </h3>
+                    <div className="space-y-4">
+                        {attendanceDistribution.map(item => (
+                            <div key={item.name}>
+                                <div className="flex justify-between text-sm font-mono mb-1 font-bold uppercase">
+                                    <span>{item.name} nights</span>
+                                    <span>{item.value}</span>
+                                </div>
+                                <div className="w-full bg-zinc-900 border-2 border-border h-3">
+                                    <div
+                                        className="h-full bg-emerald-400"
+                                        style={{
+                                            width: `${maxBucket ? (item.value / maxBucket) * 100 : 0}%`
+                                        }}
+                                    />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </NeoCard>
+
+                <NeoCard variant="cyan">
+                    <h3 className="text-2xl font-bold mb-6 font-heading">
+                        Month-over-Month Retention
+                    </h3>
+                    <div className="space-y-4">
+                        {monthly
+                            .filter(item => item.retained !== null)
+                            .map(item => (
+                                <div key={item.fullRequest}>
+                                    <div className="flex justify-between text-sm font-mono mb-1 font-bold uppercase">
+                                        <span>{item.month}</span>
+                                        <span>{item.retained}%</span>
+                                    </div>
+                                    <div className="w-full bg-zinc-900 border-2 border-border h-3">
+                                        <div
+                                            className="h-full bg-emerald-400"
+                                            style={{
+                                                width: `${item.retained}%`
+                                            }}
+                                        />
+                                    </div>
+                                </div>
+                            ))}
+                    </div>
+                </NeoCard>
+
+                {cohortStats && (
+                    <NeoCard className="lg:col-span-2">
+                        <h3 className="text-2xl font-bold mb-6 font-heading">
+                            Cohort Retention
+                        </h3>
+                        <CohortChart data={cohortStats} />
+                    </NeoCard>
+                )}
+            </div>
+        </Section>
+    );
+}
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+
+// Shape of the `events-complete-*.json` files produced by the Luma export
+// (one entry per event, each with its full guest list). Only the fields the
+// pipeline reads are declared; everything else passes through untouched.
+
+export const lumaRegistrationAnswerSchema = z.object({
+    question_id: z.string(),
+    label: z.string(),
+    question_type: z.string(),
+    /** Display value as rendered by Luma (multi-selects are comma-joined) */
+    value: z.string().nullish(),
+    /** Raw answer; arrays for multi-selects */
+    answer: z.union([z.string(), z.array(z.string()), z.boolean()]).nullish()
+});
+
+export const lumaGuestSchema = z.object({
+    api_id: z.string(),
+    user_api_id: z.string().nullish(),
+    user_email: z.string().nullish(),
+    user_name: z.string().nullish(),
+    approval_status: z.string(),
+    registered_at: z.string().datetime({ offset: true }).nullish(),
+    checked_in_at: z.string().datetime({ offset: true }).nullish(),
+    registration_answers: z.array(lumaRegistrationAnswerSchema).nullish()
+});
+
+export const lumaEventSchema = z.object({
+    api_id: z.string(),
+    name: z.string(),
+    start_at: z.string().datetime({ offset: true }),
+    timezone: z.string().nullish(),
+    url: z.string().nullish()
+});
+
+export const lumaEventExportSchema = z.object({
+    event: lumaEventSchema,
+    guests: z.array(lumaGuestSchema)
+});
+
+export const lumaExportFileSchema = z.array(lumaEventExportSchema);
+
+export type LumaRegistrationAnswer = z.infer<
+    typeof lumaRegistrationAnswerSchema
+>;
+export type LumaGuest = z.infer<typeof lumaGuestSchema>;
+export type LumaEvent = z.infer<typeof lumaEventSchema>;
+export type LumaEventExport = z.infer<typeof lumaEventExportSchema>;
+
+// `src/data/question-groups.json`: the registration questions asked across
+// the year's events, grouped so that renamed or retyped variations of the
+// same question share one canonical label.
+
+export const questionVariationSchema = z.object({
+    id: z.string(),
+    label: z.string(),
+    options: z.array(z.string()).optional(),
+    required: z.boolean(),
+    question_type: z.string()
+});
+
+export const questionGroupSchema = z.object({
+    canonical_label: z.string(),
+    variations: z.array(questionVariationSchema).min(1)
+});
+
+export const questionGroupsSchema = z.array(questionGroupSchema);
+
+export type QuestionVariation = z.infer<typeof questionVariationSchema>;
+export type QuestionGroup = z.infer<typeof questionGroupSchema>;
@@ -0,0 +1,397 @@
+import { z } from 'zod';
+
+import { privacyConfig } from '../config/privacy';
+
+// Shape of the precomputed files under `src/data`. The pipeline validates
+// its output against these before writing, and the site validates them
+// again on import.
+
+const countSchema = z.number().int().nonnegative();
+
+/**
+ * A count of people in a published group. Zero is fine, but anything else
+ * must reach the minimum cell size in `src/config/privacy.ts`.
+ */
+const cellSchema = countSchema.refine(
+    value => value === 0 || value >= privacyConfig.minCellSize,
+    value => ({
+        message: `${value} is below the minimum cell size of ${privacyConfig.minCellSize}`
+    })
+);
+
+/** A cell that is null when it was too small to publish */
+const suppressedCellSchema = cellSchema.nullable();
+
+/** `YYYY-MM`, the month key shared by every per-month file */
+export const monthKeySchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/);
+
+export const namedValueSchema = z.object({
+    name: z.string().min(1),
+    value: cellSchema
+});
+
+export const generalStatsSchema = z.object({
+    totalEvents: countSchema,
+    totalRegistrations: suppressedCellSchema,
+    uniqueGuests: suppressedCellSchema
+});
+
+export const growthStatSchema = z.object({
+    month: z.string().min(1),
+    fullRequest: monthKeySchema,
+    /** Approved RSVPs that month */
+    count: suppressedCellSchema
+});
+
+export const growthStatsSchema = z.array(growthStatSchema);
+
+export const impactStatsSchema = z.object({
+    roles: z.array(namedValueSchema).min(1),
+    experience: z.array(namedValueSchema).min(1),
+    /** Added after the first 2025 data drop, hence optional */
+    specialities: z.array(namedValueSchema).default([])
+});
+
+/** Roles × specialities, counted per builder who answered both */
+export const roleSpecialityStatsSchema = z
+    .object({
+        builders: countSchema,
+        /** Rows: each role with the number of builders who picked it */
+        roles: z.array(namedValueSchema),
+        /** Columns */
+        specialities: z.array(z.string().min(1)),
+        /** `counts[row][column]`: builders with both that role and speciality */
+        counts: z.array(z.array(suppressedCellSchema))
+    })
+    .refine(
+        ({ roles, specialities, counts }) =>
+            counts.length === roles.length &&
+            counts.every(row => row.length === specialities.length),
+        {
+            message:
+                'counts must have one row per role and one column per speciality'
+        }
+    );
+
+export const interestsStatsSchema = z.object({
+    interests: z.array(namedValueSchema).min(1)
+});
+
+const percentSchema = z.number().min(0).max(100);
+
+export const monthlyRetentionSchema = z.object({
+    month: z.string().min(1),
+    fullRequest: monthKeySchema,
+    /** Builders whose first hack night was this month */
+    firstTimers: suppressedCellSchema,
+    /** Builders who had attended in an earlier month */
+    returning: suppressedCellSchema,
+    /**
+     * % of the previous month's builders who came back; null for the first
+     * month, and when either count behind it is too small to publish
+     */
+    retained: percentSchema.nullable()
+});
+
+export const retentionStatsSchema = z.object({
+    /** % of unique builders who attended more than one hack night */
+    retentionRate: percentSchema,
+    averageEventsPerBuilder: z.number().nonnegative(),
+    monthly: z.array(monthlyRetentionSchema).min(1),
+    /** Builders bucketed by number of hack nights attended */
+    attendanceDistribution: z.array(namedValueSchema).min(1)
+});
+
+export const cohortCellSchema = z.object({
+    /** Months since the cohort's first hack night (0 = that month) */
+    offset: z.number().int().nonnegative(),
+    /** Cohort members who attended in that month */
+    count: suppressedCellSchema,
+    /** Null along with `count` */
+    percent: percentSchema.nullable()
+});
+
+/** One row of the cohort matrix: builders grouped by first month */
+export const cohortRowSchema = z.object({
+    month: z.string().min(1),
+    fullRequest: monthKeySchema,
+    size: cellSchema,
+    retention: z.array(cohortCellSchema)
+});
+
+export const cohortStatsSchema = z.array(cohortRowSchema);
+
+/** One self-identification option, as a share of the question's respondents */
+export const demographicGroupSchema = namedValueSchema.extend({
+    percent: percentSchema
+});
+
+export const demographicBreakdownSchema = z.object({
+    /** Canonical label of the question in `question-groups.json` */
+    question: z.string().min(1),
+    /** Unique builders who answered; the denominator of every percentage */
+    respondents: countSchema,
+    /** Multi-select, so percentages can sum past 100% */
+    groups: z.array(demographicGroupSchema),
+    /**
+     * Options fewer than `minGroupSize` builders picked, merged into an
+     * "Other" group, or left out when even that is too small
+     */
+    suppressedGroups: countSchema
+});
+
+export const demographicsStatsSchema = z
+    .object({
+        /** Smallest group size ever published */
+        minGroupSize: z.number().int().positive(),
+        gender: demographicBreakdownSchema,
+        identity: demographicBreakdownSchema
+    })
+    .superRefine(({ minGroupSize, ...breakdowns }, ctx) => {
+        for (const [key, { respondents, groups }] of Object.entries(
+            breakdowns
+        )) {
+            if (groups.length > 0 && respondents < minGroupSize) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    path: [key, 'respondents'],
+                    message: `${respondents} respondents is below the minimum group size of ${minGroupSize}`
+                });
+            }
+            groups.forEach((group, idx) => {
+                if (group.value < minGroupSize) {
+                    ctx.addIssue({
+                        code: z.ZodIssueCode.custom,
+                        path: [key, 'groups', idx, 'value'],
+                        message: `"${group.name}" has ${group.value} builders, below the minimum group size of ${minGroupSize}`
+                    });
+                }
+            });
+        }
+    });
+
+/** A word or phrase from the free-text answers */
+export const keywordSchema = namedValueSchema.extend({
+    words: z.number().int().min(1).max(3)
+});
+
+export const topicSchema = namedValueSchema.extend({
+    /** Share of respondents whose answers touch the topic */
+    percent: percentSchema
+});
+
+/** Mined from the free-text "what are you building" answers */
+export const textStatsSchema = z.object({
+    /** Canonical labels of the questions the answers come from */
+    questions: z.array(z.string().min(1)).min(1),
+    /** Builders who answered at least one of them */
+    respondents: countSchema,
+    /** Fewest builders a published keyword or topic has */
+    minCount: z.number().int().positive(),
+    topics: z.array(topicSchema),
+    /** Counted in builders, most used first */
+    keywords: z.array(keywordSchema)
+});
+
+export const monthlyKeywordsSchema = z.object({
+    month: z.string().min(1),
+    fullRequest: monthKeySchema,
+    /** Builders who answered that month; the denominator for each keyword */
+    respondents: countSchema,
+    /** Builders that month who used each tracked keyword */
+    counts: z.record(z.string(), suppressedCellSchema)
+});
+
+/** Monthly frequency of the top keywords from one free-text question */
+export const keywordTrendsSchema = z
+    .object({
+        question: z.string().min(1),
+        keywords: z.array(z.string().min(1)),
+        monthly: z.array(monthlyKeywordsSchema)
+    })
+    .refine(
+        ({ keywords, monthly }) =>
+            monthly.every(m => keywords.every(k => k in m.counts)),
+        { message: 'every month must count every tracked keyword' }
+    );
+
+export const zipCountsSchema = z.record(
+    z.string().regex(/^\d{5}$/),
+    cellSchema
+);
+
+export const monthlyZipCountsSchema = z.object({
+    month: z.string().min(1),
+    fullRequest: monthKeySchema,
+    /** RSVPs per ZIP code at the year's hack nights up to that month */
+    counts: zipCountsSchema
+});
+
+/**
+ * The year's ZIP counts as they grew month by month, for the time-lapse.
+ * A ZIP's total never moves by less than the minimum cell size, which is
+ * what one month's RSVPs from it would be.
+ */
+export const zipTimelineSchema = z
+    .array(monthlyZipCountsSchema)
+    .superRefine((months, ctx) => {
+        months.forEach(({ counts }, idx) => {
+            const previous = months[idx - 1]?.counts ?? {};
+            for (const zip of new Set([
+                ...Object.keys(previous),
+                ...Object.keys(counts)
+            ])) {
+                const step = (counts[zip] ?? 0) - (previous[zip] ?? 0);
+                if (step !== 0 && step < privacyConfig.minCellSize) {
+                    ctx.addIssue({
+                        code: z.ZodIssueCode.custom,
+                        path: [idx, 'counts', zip],
+                        message: `ZIP ${zip} moved by ${step}, below the minimum cell size of ${privacyConfig.minCellSize}`
+                    });
+                }
+            }
+        });
+    });
+
+/** Where a ZIP code is, from the offline gazetteer in the pipeline */
+export const zipLocationSchema = z.object({
+    /** Centroid of the ZIP Code Tabulation Area, or of the post office */
+    lat: z.number().min(-90).max(90),
+    lon: z.number().min(-180).max(180),
+    city: z.string().min(1),
+    county: z.string(),
+    /** Two-letter USPS code */
+    state: z.string().regex(/^[A-Z]{2}$/)
+});
+
+/** Every ZIP in `zip-counts.json` that resolved to a real place */
+export const zipLocationsSchema = z.record(
+    z.string().regex(/^\d{5}$/),
+    zipLocationSchema
+);
+
+/** ZIP counts summed over a neighborhood, city, county or state */
+export const regionRollupSchema = namedValueSchema.extend({
+    /** ZIP codes in the region with at least one RSVP */
+    zips: z.number().int().positive(),
+    /** `[west, south, east, north]` around those ZIPs' centroids */
+    bounds: z.tuple([z.number(), z.number(), z.number(), z.number()])
+});
+
+/** Each level sorted by RSVPs, most first */
+export const regionRollupsSchema = z.object({
+    neighborhoods: z.array(regionRollupSchema),
+    cities: z.array(regionRollupSchema),
+    counties: z.array(regionRollupSchema),
+    states: z.array(regionRollupSchema)
+});
+
+/**
+ * Where hack night took place. `src/data/venues.json` lists every venue;
+ * each is used from its `from` month until the next one's.
+ */
+export const venueSchema = z.object({
+    name: z.string().min(1),
+    lat: z.number().min(-90).max(90),
+    lon: z.number().min(-180).max(180),
+    /** Two-letter USPS code; builders from any other state are out-of-state */
+    state: z.string().regex(/^[A-Z]{2}$/),
+    /** First month at this venue; omit for the first venue */
+    from: monthKeySchema.optional()
+});
+
+export const venuesSchema = z.array(venueSchema);
+
+/** How far builders travel, from their ZIP centroid to the venue */
+export const distanceStatsSchema = z.object({
+    /** Venues used during the edition, in the order they were used */
+    venues: z.array(venueSchema).min(1),
+    /** Builders whose ZIP code could be placed */
+    builders: countSchema,
+    medianMiles: z.number().nonnegative(),
+    /** Builders per distance band, nearest first */
+    distribution: z.array(namedValueSchema).min(1),
+    /** Builders from a different state than the venue */
+    outOfState: suppressedCellSchema,
+    /** Null along with `outOfState` */
+    outOfStatePercent: percentSchema.nullable()
+});
+
+/** Cells `pnpm data` merged or left out of one aggregate */
+export const suppressionSchema = z.object({
+    /** Output file, relative to the edition's directory */
+    file: z.string().min(1),
+    /** What the cells count, e.g. `roles` or `2025-03 ZIP codes` */
+    aggregate: z.string().min(1),
+    /** Only how many: the sum of a single hidden cell would give it away */
+    cells: z.number().int().positive(),
+    /** Cell they were merged into; null if they were left out */
+    mergedInto: z.string().nullable(),
+    /** Threshold they fell under, when stricter than `minCellSize` */
+    minSize: z.number().int().positive().optional(),
+    /**
+     * Cells that were big enough, hidden with the only small cell of their
+     * line so it cannot be worked out from the line's total
+     */
+    complementary: z.literal(true).optional()
+});
+
+/** How `pnpm data --noise` spent the privacy budget */
+export const noiseReportSchema = z.object({
+    mechanism: z.enum(['geometric', 'laplace']),
+    /** Budget for the whole edition, which protects each builder */
+    epsilon: z.number().positive(),
+    /** RSVPs counted per builder at most */
+    maxRsvps: z.number().int().positive(),
+    /** The share of it each noised query used */
+    queries: z.array(
+        z.object({
+            query: z.string().min(1),
+            epsilon: z.number().positive(),
+            /** Most one builder can change the query's counts, in total */
+            sensitivity: z.number().positive()
+        })
+    )
+});
+
+/**
+ * What the privacy stage of `pnpm data` suppressed, written next to each
+ * edition for the maintainers. The site does not read it.
+ */
+export const privacyReportSchema = z.object({
+    minCellSize: z.number().int().positive(),
+    suppressions: z.array(suppressionSchema),
+    /** Null unless the counts were noised */
+    noise: noiseReportSchema.nullable()
+});
+
+export type NamedValue = z.infer<typeof namedValueSchema>;
+export type GeneralStats = z.infer<typeof generalStatsSchema>;
+export type GrowthStat = z.infer<typeof growthStatSchema>;
+export type ImpactStats = z.infer<typeof impactStatsSchema>;
+export type RoleSpecialityStats = z.infer<typeof roleSpecialityStatsSchema>;
+export type InterestsStats = z.infer<typeof interestsStatsSchema>;
+export type MonthlyRetention = z.infer<typeof monthlyRetentionSchema>;
+export type RetentionStats = z.infer<typeof retentionStatsSchema>;
+export type CohortCell = z.infer<typeof cohortCellSchema>;
+export type CohortRow = z.infer<typeof cohortRowSchema>;
+export type DemographicGroup = z.infer<typeof demographicGroupSchema>;
+export type DemographicBreakdown = z.infer<typeof demographicBreakdownSchema>;
+export type DemographicsStats = z.infer<typeof demographicsStatsSchema>;
+export type Keyword = z.infer<typeof keywordSchema>;
+export type Topic = z.infer<typeof topicSchema>;
+export type TextStats = z.infer<typeof textStatsSchema>;
+export type MonthlyKeywords = z.infer<typeof monthlyKeywordsSchema>;
+export type KeywordTrends = z.infer<typeof keywordTrendsSchema>;
+export type ZipCounts = z.infer<typeof zipCountsSchema>;
+export type MonthlyZipCounts = z.infer<typeof monthlyZipCountsSchema>;
+export type ZipTimeline = z.infer<typeof zipTimelineSchema>;
+export type ZipLocation = z.infer<typeof zipLocationSchema>;
+export type ZipLocations = z.infer<typeof zipLocationsSchema>;
+export type RegionRollup = z.infer<typeof regionRollupSchema>;
+export type RegionRollups = z.infer<typeof regionRollupsSchema>;
+export type Venue = z.infer<typeof venueSchema>;
+export type DistanceStats = z.infer<typeof distanceStatsSchema>;
+export type Suppression = z.infer<typeof suppressionSchema>;
+export type NoiseReport = z.infer<typeof noiseReportSchema>;
+export type PrivacyReport = z.infer<typeof privacyReportSchema>;
@@ -0,0 +1,58 @@
+// Great-circle helpers shared by the data pipeline (distances from the
+// venue) and the map (commute rings around it).
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+/** Radii of the commute rings drawn around each venue, in miles */
+export const RING_MILES = [5, 10, 25, 50];
+
+export interface LatLon {
+    lat: number;
+    lon: number;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/** Haversine distance between two points, in miles */
+export function haversineMiles(a: LatLon, b: LatLon) {
+    const dLat = toRadians(b.lat - a.lat);
+    const dLon = toRadians(b.lon - a.lon);
+    const h =
+        Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(a.lat)) *
+            Math.cos(toRadians(b.lat)) *
+            Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * A closed ring of `[lon, lat]` points `radiusMiles` away from `center`,
+ * for drawing as a line on the map.
+ */
+export function circleCoordinates(
+    center: LatLon,
+    radiusMiles: number,
+    steps = 96
+): [number, number][] {
+    const angular = radiusMiles / EARTH_RADIUS_MILES;
+    const lat1 = toRadians(center.lat);
+    const lon1 = toRadians(center.lon);
+
+    const coordinates: [number, number][] = [];
+    for (let i = 0; i <= steps; i++) {
+        const bearing = (2 * Math.PI * i) / steps;
+        const lat2 = Math.asin(
+            Math.sin(lat1) * Math.cos(angular) +
+                Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing)
+        );
+        const lon2 =
+            lon1 +
+            Math.atan2(
+                Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+                Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+            );
+        coordinates.push([toDegrees(lon2), toDegrees(lat2)]);
+    }
+    return coordinates;
+}
@@ -0,0 +1,100 @@
+// Turns a section's datasets into files readers can take away: CSV and
+// JSON per table, or a zip with every CSV and a Frictionless data package
+// (`datapackage.json`) describing their fields and license.
+
+import { strToU8, zipSync } from 'fflate';
+
+import { reportConfig } from '@/config/report';
+import { reportPath } from '@/config/routes';
+import type { Dataset, DatasetRow } from '@/data/datasets';
+
+export const DATA_LICENSE = {
+    name: 'CC-BY-NC-4.0',
+    title: 'Creative Commons Attribution-NonCommercial 4.0',
+    path: 'https://creativecommons.org/licenses/by-nc/4.0/'
+};
+
+function csvCell(value: DatasetRow[string]) {
+    if (value === null) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+/** RFC 4180 CSV; suppressed cells are left empty */
+export function toCsv({ fields, rows }: Dataset) {
+    const lines = [
+        fields.map(f => csvCell(f.name)).join(','),
+        ...rows.map(row => fields.map(f => csvCell(row[f.name])).join(','))
+    ];
+    return `${lines.join('\r\n')}\r\n`;
+}
+
+export function toJson({ rows }: Dataset) {
+    return `${JSON.stringify(rows, null, 4)}\n`;
+}
+
+/** `datapackage.json` for the CSVs of one section of one edition */
+export function toDataPackage(
+    year: number,
+    section: string,
+    title: string,
+    datasets: Dataset[]
+) {
+    return {
+        profile: 'tabular-data-package',
+        name: `state-of-hack-night-${year}-${section}`,
+        title: `${reportConfig.siteName} ${year}: ${title}`,
+        homepage: `${reportConfig.siteUrl}${reportPath(year, section)}`,
+        licenses: [DATA_LICENSE],
+        resources: datasets.map(dataset => ({
+            profile: 'tabular-data-resource',
+            name: dataset.name,
+            path: `${dataset.name}.csv`,
+            title: dataset.title,
+            description: dataset.description,
+            format: 'csv',
+            mediatype: 'text/csv',
+            encoding: 'utf-8',
+            schema: {
+                fields: dataset.fields,
+                missingValues: ['']
+            }
+        }))
+    };
+}
+
+/** Every dataset of a section as CSV, with its data package */
+export function toZip(
+    year: number,
+    section: string,
+    title: string,
+    datasets: Dataset[]
+) {
+    const files: Record<string, Uint8Array> = {
+        'datapackage.json': strToU8(
+            `${JSON.stringify(toDataPackage(year, section, title, datasets), null, 4)}\n`
+        )
+    };
+    for (const dataset of datasets) {
+        files[`${dataset.name}.csv`] = strToU8(toCsv(dataset));
+    }
+    return zipSync(files);
+}
+
+/** Saves generated content through a temporary link */
+export function downloadFile(
+    fileName: string,
+    content: BlobPart,
+    type: string
+) {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Some browsers start the download after click() returns, so give them
+    // a moment before the blob goes away
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,206 @@
+// Branded share images of a section or one of its charts, rendered in the
+// browser: the hello_miami logo, a title, the content scaled to fit, and
+// the link back to the report. Recharts charts are copied as vector SVG;
+// anything else is captured with html-to-image.
+
+import { toPng, toSvg } from 'html-to-image';
+
+import { HELLO_MIAMI_LOGO } from '@/components/icons/hello-miami-logo';
+import { reportConfig } from '@/config/report';
+import { reportPath } from '@/config/routes';
+
+/** Recommended in-feed image sizes for each network */
+export const SHARE_SIZES = [
+    { id: 'x', label: 'X', width: 1600, height: 900 },
+    { id: 'linkedin', label: 'LinkedIn', width: 1200, height: 627 },
+    { id: 'instagram', label: 'Instagram', width: 1080, height: 1350 }
+] as const;
+
+export type ShareSize = (typeof SHARE_SIZES)[number];
+export type ShareFormat = 'png' | 'svg';
+
+/** Elements with this attribute are left out of captures */
+export const SHARE_EXCLUDE_ATTRIBUTE = 'data-share-exclude';
+
+const BACKGROUND = '#09090b';
+const ACCENT = '#00d492';
+const FONT = "'Courier New', Courier, monospace";
+
+// Presentation properties that recharts and Tailwind set through CSS, so
+// a copied chart looks the same outside the page
+const INLINED_STYLES = [
+    'fill',
+    'fill-opacity',
+    'stroke',
+    'stroke-opacity',
+    'stroke-width',
+    'stroke-dasharray',
+    'opacity',
+    'font-family',
+    'font-size',
+    'font-weight',
+    'text-anchor',
+    'dominant-baseline'
+];
+
+interface ShareContent {
+    /** Markup of an `<svg>` or `<image>` drawn at `width` × `height` */
+    markup: string;
+    width: number;
+    height: number;
+}
+
+const escapeXml = (text: string) =>
+    text
+        .replaceAll('&', '&amp;')
+        .replaceAll('<', '&lt;')
+        .replaceAll('>', '&gt;')
+        .replaceAll('"', '&quot;');
+
+/** A recharts surface with its computed styles inlined */
+function copyChart(svg: SVGSVGElement): ShareContent {
+    const { width, height } = svg.getBoundingClientRect();
+    const copy = svg.cloneNode(true) as SVGSVGElement;
+
+    const originals = [svg, ...svg.querySelectorAll('*')];
+    const copies = [copy, ...copy.querySelectorAll('*')];
+    originals.forEach((original, idx) => {
+        const computed = getComputedStyle(original);
+        const style = INLINED_STYLES.map(
+            property => `${property}:${computed.getPropertyValue(property)}`
+        ).join(';');
+        copies[idx].setAttribute('style', style);
+    });
+
+    copy.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    copy.setAttribute('width', `${width}`);
+    copy.setAttribute('height', `${height}`);
+    copy.setAttribute('viewBox', `0 0 ${width} ${height}`);
+    return {
+        markup: new XMLSerializer().serializeToString(copy),
+        width,
+        height
+    };
+}
+
+/** Any element, as an SVG (foreignObject) or PNG data URL */
+export async function captureElement(
+    element: HTMLElement,
+    format: ShareFormat
+): Promise<ShareContent> {
+    const width = element.offsetWidth;
+    const height = element.offsetHeight;
+    const options = {
+        backgroundColor: BACKGROUND,
+        pixelRatio: 2,
+        filter: (node: HTMLElement) =>
+            !node.hasAttribute?.(SHARE_EXCLUDE_ATTRIBUTE)
+    };
+    const href =
+        format === 'svg'
+            ? await toSvg(element, options)
+            : await toPng(element, options);
+
+    return {
+        markup: `<image href="${escapeXml(href)}" width="${width}" height="${height}" />`,
+        width,
+        height
+    };
+}
+
+/**
+ * What a share image shows of a card: its recharts chart as vector SVG
+ * when it holds exactly one, otherwise the card itself.
+ */
+export function captureCard(element: HTMLElement, format: ShareFormat) {
+    const charts = element.querySelectorAll<SVGSVGElement>(
+        '.recharts-wrapper > svg.recharts-surface'
+    );
+    return charts.length === 1
+        ? Promise.resolve(copyChart(charts[0]))
+        : captureElement(element, format);
+}
+
+interface ShareImageOptions {
+    size: ShareSize;
+    year: number;
+    /** Section id, for the link back; the report itself when omitted */
+    section?: string;
+    title: string;
+    content: ShareContent;
+}
+
+/** The share image as a standalone SVG document */
+export function composeShareSvg({
+    size: { width, height },
+    year,
+    section,
+    title,
+    content
+}: ShareImageOptions) {
+    const padding = Math.round(width * 0.05);
+    const logoHeight = Math.round(height * 0.05);
+    const logoWidth =
+        (logoHeight * HELLO_MIAMI_LOGO.width) / HELLO_MIAMI_LOGO.height;
+    const titleSize = Math.round(width * 0.035);
+    const footerSize = Math.round(width * 0.018);
+
+    const top = padding + logoHeight + titleSize * 2.2;
+    const box = {
+        x: padding,
+        y: top,
+        width: width - padding * 2,
+        height: height - top - padding - footerSize * 2
+    };
+    const scale = Math.min(
+        box.width / content.width,
+        box.height / content.height
+    );
+    const contentX = box.x + (box.width - content.width * scale) / 2;
+    const contentY = box.y + (box.height - content.height * scale) / 2;
+
+    const url = `${reportConfig.siteUrl}${reportPath(year, section)}`;
+    const logo = HELLO_MIAMI_LOGO.paths
+        .map(
+            ({ d, evenOdd }) =>
+                `<path d="${d}"${evenOdd ? ' fill-rule="evenodd"' : ''} />`
+        )
+        .join('');
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<rect width="${width}" height="${height}" fill="${BACKGROUND}" />
+<rect x="${padding / 4}" y="${padding / 4}" width="${width - padding / 2}" height="${height - padding / 2}" fill="none" stroke="#ffffff" stroke-width="4" />
+<svg x="${padding}" y="${padding}" width="${logoWidth}" height="${logoHeight}" viewBox="${HELLO_MIAMI_LOGO.viewBox}" fill="${HELLO_MIAMI_LOGO.fill}">${logo}</svg>
+<text x="${width - padding}" y="${padding + logoHeight}" text-anchor="end" font-family="${FONT}" font-size="${footerSize}" font-weight="bold" fill="#a1a1aa">${escapeXml(`${reportConfig.siteName} ${year}`.toUpperCase())}</text>
+<text x="${padding}" y="${padding + logoHeight + titleSize * 1.6}" font-family="${FONT}" font-size="${titleSize}" font-weight="bold" fill="#ffffff">${escapeXml(title.toUpperCase())}</text>
+<g transform="translate(${contentX} ${contentY}) scale(${scale})">${content.markup}</g>
+<text x="${padding}" y="${height - padding}" font-family="${FONT}" font-size="${footerSize}" font-weight="bold" fill="${ACCENT}">${escapeXml(url.replace(/^https?:\/\//, ''))}</text>
+</svg>`;
+}
+
+/** Rasterizes a composed share image at its own size */
+export function shareSvgToPng(svg: string, { width, height }: ShareSize) {
+    return new Promise<Blob>((resolve, reject) => {
+        const url = URL.createObjectURL(
+            new Blob([svg], { type: 'image/svg+xml' })
+        );
+        const image = new Image(width, height);
+        image.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = width;
+            canvas.height = height;
+            canvas.getContext('2d')?.drawImage(image, 0, 0, width, height);
+            URL.revokeObjectURL(url);
+            canvas.toBlob(blob =>
+                blob
+                    ? resolve(blob)
+                    : reject(new Error('Could not render the share image'))
+            );
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('Could not render the share image'));
+        };
+        image.src = url;
+    });
+}
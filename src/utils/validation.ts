@@ -0,0 +1,29 @@
+import type { z } from 'zod';
+
+/**
+ * Parses `data` with `schema`, throwing an error that names the source and
+ * lists every failing path, e.g. `impact-stats.json: roles.0.value: Expected
+ * number, received string`.
+ */
+export function parseWithSchema<T extends z.ZodTypeAny>(
+    schema: T,
+    data: unknown,
+    source: string
+): z.output<T> {
+    const result = schema.safeParse(data);
+    if (result.success) return result.data;
+
+    const issues = result.error.issues
+        .slice(0, 10)
+        .map(issue => {
+            const at = issue.path.length ? issue.path.join('.') : '(root)';
+            return `  - ${at}: ${issue.message}`;
+        })
+        .join('\n');
+    const more =
+        result.error.issues.length > 10
+            ? `\n  ...and ${result.error.issues.length - 10} more`
+            : '';
+
+    throw new Error(`Invalid data in ${source}:\n${issues}${more}`);
+}
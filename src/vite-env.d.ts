@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    /** Basemap of the community map: `pmtiles` (default), `carto` or `outline` */
+    readonly VITE_MAP_BASEMAP?: string;
+    /** PMTiles archive for the `pmtiles` basemap */
+    readonly VITE_MAP_PMTILES_URL?: string;
+    /** Glyph URL template for map labels, e.g. `/fonts/{fontstack}/{range}.pbf` */
+    readonly VITE_MAP_GLYPHS_URL?: string;
+}
+
+interface ImportMeta {
+    readonly env: ImportMetaEnv;
+}
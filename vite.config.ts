@@ -1,13 +1,30 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
+import fs from 'fs'
 import path from 'path'
 
+// Fills `%REPORT_YEAR%` in index.html with the newest edition, i.e. the
+// newest `src/data/<year>` directory
+function reportYear(): Plugin {
+  const years = fs
+    .readdirSync(path.resolve(__dirname, 'src/data'))
+    .filter(dir => /^\d{4}$/.test(dir))
+    .sort()
+  const year = years[years.length - 1]
+
+  return {
+    name: 'report-year',
+    transformIndexHtml: html => html.replaceAll('%REPORT_YEAR%', year),
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [
     react(),
     tailwindcss(),
+    reportYear(),
   ],
   resolve: {
     alias: {